@@ -0,0 +1,103 @@
+// The original Map-backed Mapping, which copies all of its data whenever a
+// frozen instance is modified. Kept as the baseline for mapping.bench.ts.
+import type { Variable } from "../src/variable";
+
+/**
+ * Stores all Variable data, and tracks whether any snapshots have been
+ * taken of the current data.
+ */
+export class MapMapping {
+  #data: Map<Variable<unknown>, unknown>;
+
+  /**
+   * If a snapshot of this data is taken, then further modifications cannot be
+   * made directly. Instead, set/delete will clone this Mapping and modify
+   * _that_ instance.
+   */
+  #frozen = false;
+
+  constructor(data: Map<Variable<unknown>, unknown>) {
+    this.#data = data;
+  }
+
+  has<T>(key: Variable<T>): boolean {
+    return this.#data.has(key) || false;
+  }
+
+  get<T>(key: Variable<T>): T | undefined {
+    return this.#data.get(key) as T | undefined;
+  }
+
+  /**
+   * Whether no Variable holds a value in this Mapping, which is the case for
+   * the empty context that host callbacks without a JS cause run in.
+   */
+  isEmpty(): boolean {
+    return this.#data.size === 0;
+  }
+
+  /**
+   * Like the standard Map.p.set, except that we will allocate a new Mapping
+   * instance if this instance is frozen.
+   */
+  set<T>(key: Variable<T>, value: T): MapMapping {
+    const mapping = this.#fork();
+    mapping.#data.set(key, value);
+    return mapping;
+  }
+
+  /**
+   * Like the standard Map.p.delete, except that we will allocate a new Mapping
+   * instance if this instance is frozen.
+   */
+  delete<T>(key: Variable<T>): MapMapping {
+    const mapping = this.#fork();
+    mapping.#data.delete(key);
+    return mapping;
+  }
+
+  /**
+   * Replaces the state of every key matched by the predicate with its state in
+   * the other Mapping, allocating a new Mapping if this instance is frozen and
+   * anything changes.
+   */
+  graft(
+    other: MapMapping,
+    predicate: (key: Variable<unknown>) => boolean
+  ): MapMapping {
+    let mapping: MapMapping = this;
+    for (const key of this.#data.keys()) {
+      if (predicate(key) && !other.has(key)) {
+        mapping = mapping.delete(key);
+      }
+    }
+    for (const [key, value] of other.#data) {
+      if (!predicate(key)) continue;
+      if (mapping.has(key) && mapping.get(key) === value) continue;
+      mapping = mapping.set(key, value);
+    }
+    return mapping;
+  }
+
+  /**
+   * Prevents further modifications to this Mapping.
+   */
+  freeze(): void {
+    this.#frozen = true;
+  }
+
+  isFrozen(): boolean {
+    return this.#frozen;
+  }
+
+  /**
+   * We only need to fork if the Mapping is frozen (someone has a snapshot of
+   * the current data), else we can just modify our data directly.
+   */
+  #fork(): MapMapping {
+    if (this.#frozen) {
+      return new MapMapping(new Map(this.#data));
+    }
+    return this;
+  }
+}
@@ -0,0 +1,112 @@
+// Compares the persistent Mapping against the original Map-backed design, on
+// the two ways Storage uses a Mapping:
+//
+// - wrap-heavy: a snapshot is taken before every `run`, so every modification
+//   forks a frozen Mapping (as when a framework calls Snapshot.wrap on every
+//   render).
+// - run-heavy: nothing is snapshot, so `run` modifies the Mapping in place and
+//   its Revert modifies it back.
+//
+// The persistent design trades some run-heavy speed for wrap-heavy speed: with
+// many Variables, a trie lookup costs a few times what a Map lookup does, but
+// it's still tens of nanoseconds per `run`, while copying the whole Map on
+// every fork grows with the number of Variables. Mappings of up to 8 entries
+// skip the trie altogether.
+//
+// Run with `npm run bench`. Each design is measured in its own process, so that
+// V8's type feedback from one design can't deoptimize the other.
+
+import { execFileSync } from "child_process";
+import { Mapping } from "../src/mapping";
+import { Variable } from "../src/variable";
+import { MapMapping } from "./map-mapping";
+
+interface MappingLike {
+  has(key: Variable<unknown>): boolean;
+  get(key: Variable<unknown>): unknown;
+  set(key: Variable<unknown>, value: unknown): MappingLike;
+  delete(key: Variable<unknown>): MappingLike;
+  freeze(): void;
+}
+
+const designs: Record<string, () => MappingLike> = {
+  "Map (copy on fork)": () => new MapMapping(new Map()),
+  persistent: () => new Mapping(),
+};
+
+const SIZES = [2, 8, 32, 256];
+const ITERATIONS = 1_000_000;
+
+function wrapHeavy(mapping: MappingLike, keys: Variable<unknown>[]) {
+  let current = mapping;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const key = keys[i % keys.length];
+
+    // Snapshot.wrap, then Variable.run from the frozen state, which restores
+    // with a FrozenRevert.
+    current.freeze();
+    const previous = current;
+    current = current.set(key, i);
+    current.get(key);
+    current = previous;
+  }
+}
+
+function runHeavy(mapping: MappingLike, keys: Variable<unknown>[]) {
+  let current = mapping;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const key = keys[i % keys.length];
+
+    // Variable.run from an unfrozen state, which restores with a Revert.
+    const has = current.has(key);
+    const prev = current.get(key);
+    current = current.set(key, i);
+    current.get(key);
+    current = has ? current.set(key, prev) : current.delete(key);
+  }
+}
+
+const workloads = { "wrap-heavy": wrapHeavy, "run-heavy": runHeavy };
+type Workload = keyof typeof workloads;
+
+function measure(design: string, workload: Workload, size: number): number {
+  const keys = Array.from({ length: size }, () => new Variable());
+  const populate = () => {
+    let mapping = designs[design]();
+    for (const key of keys) mapping = mapping.set(key, key);
+    return mapping;
+  };
+
+  // Warm up, then report the best of a few runs to reduce noise.
+  workloads[workload](populate(), keys);
+  let best = Infinity;
+  for (let run = 0; run < 5; run++) {
+    const mapping = populate();
+    const start = process.hrtime.bigint();
+    workloads[workload](mapping, keys);
+    best = Math.min(best, Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  return best;
+}
+
+const [design, workload, size] = process.argv.slice(2);
+if (design) {
+  process.stdout.write(String(measure(design, workload as Workload, +size)));
+} else {
+  for (const workload of Object.keys(workloads)) {
+    console.log(`\n${workload} (${ITERATIONS} iterations)`);
+    for (const size of SIZES) {
+      for (const design of Object.keys(designs)) {
+        const ms = execFileSync(process.execPath, [
+          ...process.execArgv,
+          __filename,
+          design,
+          workload,
+          String(size),
+        ]);
+        const label = `${size} variables`.padStart(13);
+        console.log(`  ${label}  ${design.padEnd(18)}  ${(+ms).toFixed(1)} ms`);
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+// Compares binding five Variables with nested `run` calls against a single
+// `AsyncContext.runAll`, as a request entry point would:
+//
+// - unfrozen: nothing has snapshot the context, so every binding modifies the
+//   current Mapping in place and records a revert. runAll records a single
+//   revert for all of them.
+// - frozen: the context was snapshot just before (as it is when the entry
+//   point is itself a wrapped callback), so the first binding forks the
+//   Mapping. runAll forks it once, and its revert restores the original.
+//
+// For each, it reports the time per entry, and the bytes allocated per entry
+// (measured with a young generation large enough that no GC runs).
+//
+// "runAll" builds its entries array on every call, and that array (five
+// tuples) is most of what it allocates: more than the nested Reverts it saves
+// in the unfrozen state. "runAll, entries built once" reuses one array, which
+// isolates the storage transition itself, i.e. the allocations runAll saves.
+//
+// Run with `npm run bench:run-all`. Each measurement runs in its own process.
+
+import { execFileSync } from "child_process";
+import { AsyncContext } from "../src/index";
+
+const VARIABLES = 5;
+const ITERATIONS = 200_000;
+const ALLOCATION_ITERATIONS = 20_000;
+
+const variables = Array.from(
+  { length: VARIABLES },
+  () => new AsyncContext.Variable<number>()
+);
+
+function handler(): number {
+  return variables[0].get()!;
+}
+
+function nested(i: number, depth = 0): number {
+  if (depth === variables.length) return handler();
+  return variables[depth].run(i, nested, i, depth + 1);
+}
+
+function batched(i: number): number {
+  return AsyncContext.runAll(
+    variables.map((variable) => [variable, i] as const),
+    handler
+  );
+}
+
+const entries = variables.map((variable) => [variable, 0] as const);
+
+function prebuilt(): number {
+  return AsyncContext.runAll(entries, handler);
+}
+
+const designs = {
+  "nested run": nested,
+  runAll: batched,
+  "runAll, entries built once": prebuilt,
+};
+type Design = keyof typeof designs;
+
+const states = {
+  unfrozen: (entry: (i: number) => number, i: number) => entry(i),
+  frozen: (entry: (i: number) => number, i: number) => {
+    new AsyncContext.Snapshot();
+    return entry(i);
+  },
+};
+type State = keyof typeof states;
+
+// Keep a Variable bound around every loop, so the entry points run within an
+// existing (non-empty) context.
+const outer = new AsyncContext.Variable<number>();
+
+function loop(design: Design, state: State, iterations: number) {
+  const entry = designs[design];
+  const enter = states[state];
+  return outer.run(0, () => {
+    let sum = 0;
+    for (let i = 0; i < iterations; i++) sum += enter(entry, i);
+    return sum;
+  });
+}
+
+function measure(design: Design, state: State) {
+  loop(design, state, ITERATIONS);
+
+  let best = Infinity;
+  for (let run = 0; run < 5; run++) {
+    const start = process.hrtime.bigint();
+    loop(design, state, ITERATIONS);
+    best = Math.min(best, Number(process.hrtime.bigint() - start));
+  }
+
+  (globalThis as any).gc();
+  const before = process.memoryUsage().heapUsed;
+  loop(design, state, ALLOCATION_ITERATIONS);
+  const bytes = process.memoryUsage().heapUsed - before;
+
+  return { ns: best / ITERATIONS, bytes: bytes / ALLOCATION_ITERATIONS };
+}
+
+const [design, state] = process.argv.slice(2);
+if (design) {
+  process.stdout.write(
+    JSON.stringify(measure(design as Design, state as State))
+  );
+} else {
+  for (const state of Object.keys(states)) {
+    console.log(`\n${state} (${VARIABLES} variables)`);
+    for (const design of Object.keys(designs)) {
+      const output = execFileSync(process.execPath, [
+        ...process.execArgv,
+        "--expose-gc",
+        "--min-semi-space-size=64",
+        "--max-semi-space-size=64",
+        __filename,
+        design,
+        state,
+      ]);
+      const { ns, bytes } = JSON.parse(String(output));
+      console.log(
+        `  ${design.padEnd(26)}  ${ns.toFixed(0).padStart(5)} ns/entry  ${bytes
+          .toFixed(0)
+          .padStart(5)} bytes/entry`
+      );
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Snapshot } from "./snapshot";
+import { Variable } from "./variable";
+
+import type { AnyFunc } from "./types";
+
+/**
+ * An adapter with the API of Node's `AsyncLocalStorage`, so that existing call
+ * sites can move onto AsyncContext semantics without being rewritten.
+ *
+ * Each instance owns a Variable holding its store. `enterWith` and `disable`
+ * have no AsyncContext equivalent, and are emulated (see each method for how
+ * they differ from Node's).
+ */
+export class AsyncLocalStorage<T> {
+  #variable = new Variable<T>();
+
+  /**
+   * Mirrors Node's flag: `disable` clears it, and `run` and `enterWith` set it
+   * again. It's shared by every context, exactly like Node's.
+   */
+  #enabled = true;
+
+  static bind<F extends AnyFunc<any>>(fn: F): F {
+    return Snapshot.wrap(fn);
+  }
+
+  static snapshot(): <F extends AnyFunc<null>>(
+    fn: F,
+    ...args: Parameters<F>
+  ) => ReturnType<F> {
+    const snapshot = new Snapshot();
+    return (fn, ...args) => snapshot.run(fn, ...args);
+  }
+
+  run<F extends AnyFunc<null>>(
+    store: T,
+    fn: F,
+    ...args: Parameters<F>
+  ): ReturnType<F> {
+    this.#enabled = true;
+    return this.#variable.run(store, fn, ...args);
+  }
+
+  /**
+   * Runs the function (and anything it schedules) without a store.
+   */
+  exit<F extends AnyFunc<null>>(fn: F, ...args: Parameters<F>): ReturnType<F> {
+    return this.#variable.run(undefined as T, fn, ...args);
+  }
+
+  getStore(): T | undefined {
+    return this.#enabled ? this.#variable.get() : undefined;
+  }
+
+  /**
+   * Emulated with `Variable#withValue`: the store is assigned for the remainder
+   * of the innermost `run` (of any Variable or Snapshot), and is undone when
+   * that scope ends. Node also lets the top level of a module (or a callback
+   * the host calls directly) enter a store for good, which AsyncContext can't,
+   * so there this throws a ReferenceError.
+   */
+  enterWith(store: T): void {
+    this.#variable.withValue(store);
+    this.#enabled = true;
+  }
+
+  /**
+   * Emulated with the shared flag: `getStore` returns undefined in every
+   * context until the next `run` or `enterWith`. As in Node, the stores are
+   * kept, so contexts see theirs again once the instance is re-enabled.
+   */
+  disable(): void {
+    this.#enabled = false;
+  }
+}
@@ -0,0 +1,150 @@
+import { clearTimeoutSignal, timeout, timeoutError } from "./event-target";
+import { isThenable } from "./types";
+import { Variable } from "./variable";
+
+import type { AnyFunc } from "./types";
+
+export interface CancellationOptions {
+  /** Cancels the scope when this signal aborts. */
+  signal?: AbortSignal;
+  /** Cancels the scope this many milliseconds from now. */
+  timeout?: number;
+  /** Cancels the scope at this time (in `Date.now()` milliseconds). */
+  deadline?: number;
+}
+
+interface Scope {
+  signal: AbortSignal;
+  deadline: number;
+}
+
+const current = new Variable<Scope | undefined>({ name: "cancellation" });
+
+/**
+ * Runs the function in a cancellation scope, which is cancelled when the
+ * enclosing scope is, when the given signal aborts, or when its deadline
+ * passes, whichever comes first. The scope's deadline is the earliest of its
+ * own and every enclosing scope's, like a gRPC deadline propagated from a
+ * caller to its callees.
+ *
+ * Code anywhere within the scope (including promise reactions and wrapped
+ * callbacks) reads the scope's signal and remaining time, instead of having
+ * a `signal` parameter threaded through every layer.
+ *
+ * The scope ends when the function returns, or when the promise it returns
+ * settles. Then its deadline timer is cleared and its listeners are removed
+ * from the enclosing and given signals, so the scope's signal no longer
+ * aborts.
+ */
+export function withCancellation<F extends AnyFunc<null>>(
+  options: CancellationOptions,
+  fn: F,
+  ...args: Parameters<F>
+): ReturnType<F> {
+  const parent = current.get();
+  const signals: AbortSignal[] = [];
+  if (parent) signals.push(parent.signal);
+  if (options.signal) signals.push(options.signal);
+
+  let deadline = parent ? parent.deadline : Infinity;
+  const own = Math.min(
+    options.deadline ?? Infinity,
+    options.timeout === undefined ? Infinity : Date.now() + options.timeout
+  );
+  // The enclosing scope's signal already aborts at its own deadline, so only
+  // an earlier deadline needs a timer of its own.
+  let timer: AbortSignal | undefined;
+  if (own < deadline) {
+    deadline = own;
+    timer = timeoutAt(deadline);
+    signals.push(timer);
+  }
+
+  const [signal, unlink] = linkSignals(signals);
+  const end = () => {
+    unlink();
+    if (timer) clearTimeoutSignal(timer);
+  };
+
+  let ended = true;
+  try {
+    const result = current.run({ signal, deadline }, fn, ...args);
+    if (isThenable(result)) {
+      ended = false;
+      result.then(end, end);
+    }
+    return result;
+  } finally {
+    if (ended) end();
+  }
+}
+
+/**
+ * The signal of the current cancellation scope, or undefined outside of any
+ * scope, so it can be passed along as is (e.g. `fetch(url, { signal })`).
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return current.get()?.signal;
+}
+
+/**
+ * The deadline of the current cancellation scope, or Infinity if it (or the
+ * lack of one) has none.
+ */
+export function currentDeadline(): number {
+  return current.get()?.deadline ?? Infinity;
+}
+
+/**
+ * The milliseconds left before the current scope's deadline, never less than
+ * 0, or Infinity if there's no deadline. This is the budget to hand along to a
+ * remote call (e.g. as a `grpc-timeout` header).
+ */
+export function remainingTime(): number {
+  return Math.max(0, currentDeadline() - Date.now());
+}
+
+/**
+ * Like `AbortSignal.any`: a signal that aborts (with the same reason) as soon
+ * as any of the given signals does. A single signal is returned as is.
+ */
+export function anySignal(signals: readonly AbortSignal[]): AbortSignal {
+  return linkSignals(signals)[0];
+}
+
+/**
+ * Like `anySignal`, also returning a function that removes the listeners it
+ * added to the given signals, once the combined signal is no longer needed.
+ */
+function linkSignals(
+  signals: readonly AbortSignal[]
+): [signal: AbortSignal, unlink: () => void] {
+  if (signals.length === 1) return [signals[0], noop];
+
+  for (const signal of signals) {
+    if (signal.aborted) return [AbortSignal.abort(signal.reason), noop];
+  }
+
+  const controller = new AbortController();
+  const unlink = () => {
+    for (const signal of signals) {
+      signal.removeEventListener("abort", onAbort);
+    }
+  };
+  const onAbort = function (this: AbortSignal) {
+    unlink();
+    controller.abort(this.reason);
+  };
+  for (const signal of signals) {
+    signal.addEventListener("abort", onAbort);
+  }
+  return [controller.signal, unlink];
+}
+
+function noop() {}
+
+function timeoutAt(deadline: number): AbortSignal {
+  const ms = deadline - Date.now();
+  if (ms > 0) return timeout(ms);
+  return AbortSignal.abort(timeoutError());
+}
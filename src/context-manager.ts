@@ -0,0 +1,132 @@
+import { EventEmitter } from "events";
+import { Snapshot } from "./snapshot";
+import { Variable } from "./variable";
+
+import type { AnyFunc } from "./types";
+
+type Listener = AnyFunc<any> & { listener?: AnyFunc<any> };
+
+const ONCE_METHODS = {
+  once: "addListener",
+  prependOnceListener: "prependListener",
+} as const;
+
+/**
+ * Implements the OpenTelemetry `ContextManager` contract, so that spans can be
+ * propagated by AsyncContext (the polyfill now, and the native implementation
+ * later) without touching instrumentation code.
+ *
+ * Contexts are opaque to the manager: the active one is held by a single
+ * Variable, and `root` (OpenTelemetry's `ROOT_CONTEXT`) is active wherever
+ * that Variable isn't set, or while the manager is disabled.
+ */
+export class AsyncContextManager<C extends object> {
+  #variable = new Variable<C>({ name: "otel.context" });
+  #root: C;
+  #enabled = false;
+
+  /**
+   * Emitters that have been bound already. Like OpenTelemetry's own managers,
+   * an emitter is only ever bound to the first context it's bound to.
+   */
+  #emitters = new WeakSet<EventEmitter>();
+
+  constructor(root: C) {
+    this.#root = root;
+  }
+
+  active(): C {
+    if (!this.#enabled) return this.#root;
+    return this.#variable.get() ?? this.#root;
+  }
+
+  with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(
+    context: C,
+    fn: F,
+    thisArg?: ThisParameterType<F>,
+    ...args: A
+  ): ReturnType<F> {
+    if (!this.#enabled) return fn.apply(thisArg, args);
+    return this.#variable.run(context, () => fn.apply(thisArg, args));
+  }
+
+  /**
+   * Binds a function, or the listeners of an EventEmitter, to the context.
+   * The binding is a Snapshot taken with the context active, so the rest of
+   * the binding-time AsyncContext state is restored along with it.
+   */
+  bind<T>(context: C, target: T): T {
+    if (target instanceof EventEmitter) {
+      return this.#bindEmitter(context, target) as T;
+    }
+    if (typeof target === "function") {
+      return this.#bindFunction(context, target as AnyFunc<any>) as T;
+    }
+    return target;
+  }
+
+  enable(): this {
+    this.#enabled = true;
+    return this;
+  }
+
+  disable(): this {
+    this.#enabled = false;
+    return this;
+  }
+
+  #bindFunction<F extends AnyFunc<any>>(context: C, fn: F): F {
+    return this.#variable.run(context, () => Snapshot.wrap(fn));
+  }
+
+  /**
+   * Patches the emitter's registration methods, so that every listener added
+   * from now on runs in the context. Each wrapper exposes the original
+   * function as `listener` (as Node's `once` wrappers do), so
+   * `removeListener` and `listeners` see through it.
+   */
+  #bindEmitter(context: C, emitter: EventEmitter): EventEmitter {
+    if (this.#emitters.has(emitter)) return emitter;
+    this.#emitters.add(emitter);
+
+    const wrap = (fn: Listener, once: boolean, type: string | symbol) => {
+      let fired = false;
+      const bound = this.#bindFunction(context, fn);
+      const listener: Listener = function (this: EventEmitter, ...args) {
+        if (once) {
+          if (fired) return;
+          fired = true;
+          this.removeListener(type, listener);
+        }
+        return bound.apply(this, args);
+      };
+      listener.listener = fn.listener ?? fn;
+      return listener;
+    };
+
+    // Capture the unbound methods before any of them are replaced.
+    const native = {
+      on: emitter.on,
+      addListener: emitter.addListener,
+      prependListener: emitter.prependListener,
+    };
+    const register = (
+      add: keyof typeof native,
+      once: boolean
+    ): AnyFunc<EventEmitter> => {
+      const nativeFn = native[add];
+      return function (this: EventEmitter, type, fn: Listener) {
+        if (typeof fn !== "function") return nativeFn.call(this, type, fn);
+        return nativeFn.call(this, type, wrap(fn, once, type));
+      };
+    };
+
+    for (const method of Object.keys(native) as Array<keyof typeof native>) {
+      emitter[method] = register(method, false);
+    }
+    for (const [method, add] of Object.entries(ONCE_METHODS)) {
+      emitter[method as keyof typeof ONCE_METHODS] = register(add, true);
+    }
+    return emitter;
+  }
+}
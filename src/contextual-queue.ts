@@ -0,0 +1,198 @@
+import { Snapshot } from "./snapshot";
+import { isThenable } from "./types";
+
+/**
+ * The context a batch is flushed in:
+ *
+ * - "first": the context of the first item, i.e. of the caller whose enqueue
+ *   scheduled the flush (what a `setTimeout` called there would capture).
+ * - "last": the context of the last item.
+ * - "flush": whatever context the flush happens to be triggered in.
+ * - "empty": the empty context, so no caller's values leak into the flush.
+ * - a function, which picks (or builds, e.g. with `Snapshot.from`) the
+ *   context from the batch.
+ */
+export type MergePolicy<T> =
+  | "first"
+  | "last"
+  | "flush"
+  | "empty"
+  | ((batch: Batch<T>) => Snapshot | undefined);
+
+const MERGES: readonly string[] = ["first", "last", "flush", "empty"];
+
+export interface ContextualQueueOptions<T> {
+  /** Handles a batch of items, in the context chosen by `merge`. */
+  flush: (batch: Batch<T>) => unknown;
+
+  /** Defaults to "first". */
+  merge?: MergePolicy<T>;
+
+  /**
+   * Schedules a flush once the first item of a batch is enqueued. Defaults to
+   * `queueMicrotask`, so that everything enqueued in the same tick is batched
+   * together.
+   */
+  schedule?: (flush: () => void) => void;
+
+  /** Flushes as soon as this many items are queued. */
+  maxSize?: number;
+
+  /**
+   * Handles an error thrown (or rejected) by `flush`, in the context the batch
+   * was flushed in, with the batch whose items it failed on. An error thrown
+   * by a `merge` function is handled the same way, in the context the flush
+   * was triggered in. By default, the error is rethrown from a microtask.
+   */
+  onError?: (error: unknown, batch: Batch<T>) => void;
+}
+
+/**
+ * An item of a batch, with the context it was enqueued in.
+ */
+export interface BatchItem<T> {
+  readonly value: T;
+  readonly snapshot: Snapshot;
+}
+
+/**
+ * The items flushed together. Each item keeps its own context, so per-item
+ * callbacks (resolving a caller's promise, rendering a caller's update) run as
+ * if called by that caller.
+ */
+export class Batch<T> {
+  readonly items: readonly BatchItem<T>[];
+
+  constructor(items: readonly BatchItem<T>[]) {
+    this.items = items;
+  }
+
+  get values(): T[] {
+    return this.items.map((item) => item.value);
+  }
+
+  /**
+   * The context of every item, in enqueue order, for code that acts on the
+   * batch as a whole (e.g. linking a trace span to each caller's span).
+   */
+  get snapshots(): Snapshot[] {
+    return this.items.map((item) => item.snapshot);
+  }
+
+  /**
+   * Calls the function with each item's value, in that item's context.
+   */
+  forEach(fn: (value: T, index: number) => void): void {
+    this.items.forEach((item, index) =>
+      item.snapshot.run(fn, item.value, index)
+    );
+  }
+}
+
+/**
+ * A queue whose items are flushed together later (DataLoader-style request
+ * batching, or batched rendering), capturing a Snapshot per item, so that the
+ * context of each caller isn't lost to the one context the flush runs in.
+ */
+export class ContextualQueue<T> {
+  #items: BatchItem<T>[] = [];
+  #options: ContextualQueueOptions<T>;
+  #scheduled = false;
+
+  constructor(options: ContextualQueueOptions<T>) {
+    if (typeof options?.flush !== "function") {
+      throw new TypeError("ContextualQueue requires a flush function");
+    }
+    const { merge } = options;
+    if (typeof merge === "string" && !MERGES.includes(merge)) {
+      throw new TypeError(`Unknown merge policy "${merge}"`);
+    }
+    this.#options = options;
+  }
+
+  get size(): number {
+    return this.#items.length;
+  }
+
+  enqueue(value: T): void {
+    this.#items.push({ value, snapshot: new Snapshot() });
+
+    const { maxSize, schedule = queueMicrotask } = this.#options;
+    if (maxSize !== undefined && this.#items.length >= maxSize) {
+      this.flush();
+    } else if (!this.#scheduled) {
+      this.#scheduled = true;
+      schedule(() => {
+        if (this.#scheduled) this.flush();
+      });
+    }
+  }
+
+  /**
+   * Flushes the queued items now, rather than waiting for the scheduled flush.
+   * Items enqueued by the flush handler go into the next batch.
+   *
+   * Returns what the flush handler returned, or undefined if it (or the merge
+   * policy) threw. Either way, the error goes to `onError` rather than to the
+   * caller.
+   */
+  flush(): unknown {
+    this.#scheduled = false;
+    if (!this.#items.length) return undefined;
+
+    const batch = new Batch(this.#items.splice(0));
+    let snapshot: Snapshot | undefined;
+    try {
+      snapshot = mergeOf(this.#options.merge ?? "first", batch);
+    } catch (e) {
+      this.#report(e, batch);
+      return undefined;
+    }
+    return snapshot
+      ? snapshot.run(() => this.#flush(batch))
+      : this.#flush(batch);
+  }
+
+  #flush(batch: Batch<T>): unknown {
+    const report = (error: unknown) => this.#report(error, batch);
+    try {
+      const result = this.#options.flush(batch);
+      if (isThenable(result)) {
+        result.then(undefined, Snapshot.wrap(report));
+      }
+      return result;
+    } catch (e) {
+      report(e);
+      return undefined;
+    }
+  }
+
+  #report(error: unknown, batch: Batch<T>): void {
+    const { onError = rethrow } = this.#options;
+    onError(error, batch);
+  }
+}
+
+function mergeOf<T>(
+  merge: MergePolicy<T>,
+  batch: Batch<T>
+): Snapshot | undefined {
+  const { items } = batch;
+  switch (merge) {
+    case "first":
+      return items[0].snapshot;
+    case "last":
+      return items[items.length - 1].snapshot;
+    case "flush":
+      return undefined;
+    case "empty":
+      return Snapshot.from([]);
+  }
+  return merge(batch);
+}
+
+function rethrow(error: unknown): void {
+  queueMicrotask(() => {
+    throw error;
+  });
+}
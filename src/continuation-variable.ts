@@ -0,0 +1,18 @@
+import { Variable } from "./variable";
+
+/**
+ * A ContinuationVariable behaves as a Variable within synchronous code and
+ * across snapshots, but its value additionally flows along continuations (see
+ * CONTINUATION.md): a promise reaction observes the value that was current
+ * when the promise it's attached to was settled, rather than the value that
+ * was current when the reaction was registered.
+ *
+ * All other Variables in the reaction keep their registration-time values.
+ * This requires the Promise instrumentation from promise-polyfill.ts to be
+ * installed, and only applies to promises it can observe settling.
+ */
+export class ContinuationVariable<T> extends Variable<T> {}
+
+export function isContinuationVariable(key: Variable<unknown>): boolean {
+  return key instanceof ContinuationVariable;
+}
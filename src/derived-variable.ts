@@ -0,0 +1,95 @@
+import { storageOf } from "./storage";
+import { Variable } from "./variable";
+
+import type { Mapping } from "./mapping";
+import type { Storage } from "./storage";
+
+type Values<I extends readonly Variable<any>[]> = {
+  [K in keyof I]: I[K] extends Variable<infer T> ? T | undefined : never;
+};
+
+export interface DerivedVariableOptions<I extends readonly Variable<any>[], T> {
+  name?: string;
+  inputs: I;
+  compute: (...values: Values<I>) => T;
+}
+
+/**
+ * How many of the most recently used values are kept for unfrozen Mappings.
+ */
+const RECENT = 4;
+
+interface Entry<T> {
+  inputs: unknown[];
+  value: T;
+}
+
+/**
+ * A DerivedVariable's value is a pure function of other Variables, computed on
+ * first access and cached against the identity of the Mapping it was read
+ * from. A nested `run` of any Variable creates a new Mapping (or modifies an
+ * unfrozen one in place); when none of the inputs changed, the cached value
+ * carries over to it without calling `compute` again.
+ *
+ * Reading doesn't freeze the Mapping, so it doesn't make the next `run` fork.
+ * An unfrozen Mapping can still be modified in place, so values are only
+ * cached against frozen ones (a snapshot was taken, so they can't change).
+ * Otherwise, the inputs are read and matched against the most recently used
+ * values.
+ */
+export class DerivedVariable<I extends readonly Variable<any>[], T> {
+  #name = "";
+  #inputs: I;
+  #compute: (...values: Values<I>) => T;
+  #storage: Storage;
+
+  #cache = new WeakMap<Mapping, Entry<T>>();
+  #recent: Entry<T>[] = [];
+
+  constructor(options: DerivedVariableOptions<I, T>) {
+    const { inputs, compute } = options;
+    if (typeof compute !== "function") {
+      throw new TypeError("compute must be a function");
+    }
+    const storages = new Set(
+      inputs.map((input) => storageOf(input.constructor))
+    );
+    if (storages.size > 1) {
+      throw new TypeError("Inputs must belong to the same domain");
+    }
+    if ("name" in options) {
+      this.#name = String(options.name);
+    }
+    this.#inputs = [...inputs] as unknown as I;
+    this.#compute = compute;
+    this.#storage = storageOf(inputs[0]?.constructor ?? Variable);
+  }
+
+  get name() {
+    return this.#name;
+  }
+
+  get(): T {
+    const mapping = this.#storage.current();
+    const frozen = mapping.isFrozen();
+    const cached = frozen ? this.#cache.get(mapping) : undefined;
+    if (cached) return cached.value;
+
+    const inputs = this.#inputs.map((input) => input.get());
+    const recent = this.#recent;
+    const index = recent.findIndex((entry) => {
+      return inputs.every((value, i) => Object.is(value, entry.inputs[i]));
+    });
+    let entry: Entry<T>;
+    if (index === -1) {
+      entry = { inputs, value: this.#compute(...(inputs as Values<I>)) };
+      if (recent.length === RECENT) recent.shift();
+    } else {
+      entry = recent.splice(index, 1)[0];
+    }
+    recent.push(entry);
+
+    if (frozen) this.#cache.set(mapping, entry);
+    return entry.value;
+  }
+}
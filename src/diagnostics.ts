@@ -0,0 +1,86 @@
+/**
+ * Opt-in instrumentation of context transitions, for building tracing,
+ * metrics and profiling on top of the polyfill.
+ *
+ * Every publisher checks `hooks.length` before building an event, so with no
+ * subscribers the cost is a single length check per transition.
+ */
+
+export type DiagnosticsEventType =
+  | "variable.run"
+  | "variable.runAll"
+  | "snapshot.run"
+  | "snapshot.wrap"
+  | "storage.switch"
+  | "storage.restore";
+
+export interface DiagnosticsEvent {
+  type: DiagnosticsEventType;
+
+  /**
+   * The name of the Variable, for "variable.run" and the "storage.restore"
+   * that ends it.
+   */
+  name?: string;
+
+  /**
+   * The number of open storage transitions (`run` callbacks and switched
+   * snapshots). For "snapshot.run" and "snapshot.wrap", it's the depth they
+   * were called at; for the others, the depth once the transition happened.
+   */
+  depth: number;
+}
+
+export type DiagnosticsHook = (event: DiagnosticsEvent) => void;
+
+export const hooks: DiagnosticsHook[] = [];
+
+let publishing = false;
+
+export function subscribe(hook: DiagnosticsHook): void {
+  if (typeof hook !== "function") {
+    throw new TypeError("Diagnostics hook must be a function");
+  }
+  hooks.push(hook);
+}
+
+/**
+ * Removes the hook, returning whether it was subscribed.
+ */
+export function unsubscribe(hook: DiagnosticsHook): boolean {
+  const index = hooks.indexOf(hook);
+  if (index === -1) return false;
+  hooks.splice(index, 1);
+  return true;
+}
+
+/**
+ * Calls every hook with the event. Transitions made by the hooks themselves
+ * aren't published, and a hook that throws can't interrupt the transition:
+ * its error is rethrown from a microtask, like an error in a
+ * `diagnostics_channel` subscriber.
+ */
+export function publish(
+  type: DiagnosticsEventType,
+  depth: number,
+  name?: string
+): void {
+  if (publishing) return;
+  publishing = true;
+
+  const event: DiagnosticsEvent =
+    name === undefined ? { type, depth } : { type, name, depth };
+  try {
+    for (const hook of hooks.slice()) {
+      try {
+        hook(event);
+      } catch (e) {
+        queueMicrotask(() => {
+          throw e;
+        });
+      }
+    }
+  } finally {
+    publishing = false;
+  }
+}
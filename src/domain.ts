@@ -0,0 +1,66 @@
+import { Snapshot, deserializeIn, fromIn, wrap } from "./snapshot";
+import { Storage, addDomain, bindStorage } from "./storage";
+import { Variable } from "./variable";
+
+import type { SerializedSnapshot } from "./serialization";
+import type { SnapshotEntries } from "./snapshot";
+import type { AnyFunc } from "./types";
+
+/**
+ * A domain is an independent context root, with its own Variable and Snapshot
+ * constructors. Test runners and sandboxes use separate domains so that
+ * nothing one does with its context can be seen by another.
+ *
+ * Across domains:
+ *
+ * - A Variable only ever reads the data of its own domain, so running a
+ *   Variable, or a Snapshot, never changes what another domain's Variables
+ *   see.
+ * - A function wrapped in one domain and called from another switches only
+ *   its own domain's data. The caller's domain keeps its current context for
+ *   the duration of the call, exactly as for any other synchronous call.
+ * - Snapshots can't hold another domain's Variables: `from`, `with` and
+ *   `deserialize` reject (or, for `deserialize`, drop) them, and snapshots of
+ *   different domains are never `equals`.
+ * - Serialization keys and loggable names are registered on the domain's
+ *   Storage, so each domain can use the same ones, and `deserialize` and a
+ *   Logger only ever see their own domain's Variables.
+ *
+ * The host integrations in this package (the Promise and Node polyfills, and
+ * the rest) propagate every domain at once, so a domain's Variables keep their
+ * values across `await`, timers and listeners, exactly as the default
+ * domain's do.
+ */
+export interface Domain {
+  Variable: typeof Variable;
+  Snapshot: typeof Snapshot;
+}
+
+export function createDomain(): Domain {
+  const storage = new Storage();
+
+  class DomainVariable<T> extends Variable<T> {}
+
+  class DomainSnapshot extends Snapshot {
+    static wrap<F extends AnyFunc<any>>(fn: F): F {
+      return wrap(storage, fn);
+    }
+
+    static deserialize(data: SerializedSnapshot): Snapshot {
+      return deserializeIn(DomainSnapshot, data);
+    }
+
+    static from(entries: SnapshotEntries): Snapshot {
+      return fromIn(DomainSnapshot, entries);
+    }
+  }
+
+  addDomain(storage);
+  bindStorage(DomainVariable, storage);
+  bindStorage(DomainSnapshot, storage);
+
+  return {
+    Variable: DomainVariable,
+    Snapshot: DomainSnapshot,
+  };
+}
@@ -0,0 +1,283 @@
+import { Mapping } from "./mapping";
+import { FrozenRevert } from "./fork";
+import { Snapshot } from "./snapshot";
+import { storage } from "./storage";
+
+/**
+ * How an event dispatch relates to the context of the code that caused it,
+ * following the event propagation rules in WEB-INTEGRATION.md:
+ *
+ * - "sync": the dispatch happens synchronously within the call that caused
+ *   it, so listeners simply run in the current context.
+ * - "task": the dispatch is the asynchronous progress or completion of a task
+ *   started on the target, so listeners run in the context captured by
+ *   `startTask` (or the empty context, if no task is in progress).
+ * - "none": the dispatch is externally caused, or caused by an API acting on
+ *   a separate object, so listeners run in the empty context.
+ * - "registration": each listener runs in the context it was registered in
+ *   (the first approach WEB-INTEGRATION.md discusses, since discarded), for
+ *   comparing library code against it. Only listeners registered through a
+ *   ContextEventTarget have a registration context; others run in the empty
+ *   context.
+ */
+export type DispatchPropagation = "sync" | "task" | "none" | "registration";
+
+/**
+ * The empty context, in which every Variable holds its default value. It's
+ * frozen up front so that a listener running a Variable will fork rather
+ * than modify the shared Mapping.
+ */
+const empty = (() => {
+  const mapping = new Mapping();
+  mapping.freeze();
+  return new FrozenRevert(mapping);
+})();
+
+const tasks = new WeakMap<EventTarget, FrozenRevert>();
+const timers = new WeakMap<AbortSignal, ReturnType<typeof setTimeout>>();
+
+/**
+ * Dispatches through the native method, so that a ContextEventTarget's own
+ * `dispatchEvent` (which calls back into this module) isn't re-entered. It's
+ * looked up on each dispatch rather than when this module loads, because Node
+ * only defines a global EventTarget from version 15.
+ */
+function nativeDispatch(target: EventTarget, event: Event): boolean {
+  return EventTarget.prototype.dispatchEvent.call(target, event);
+}
+
+/**
+ * The events being dispatched in "registration" mode. The mode belongs to the
+ * dispatch of the event, rather than to whatever is on the stack, so a
+ * dispatch nested within a listener keeps its own mode. (An event can't be
+ * dispatched again while it's being dispatched.)
+ */
+const byRegistration = new WeakSet<Event>();
+
+/**
+ * Captures the current context as the context of the task the target is
+ * responsible for. An event source calls this from the API that starts the
+ * task (e.g. `XMLHttpRequest#send`), replacing any previous task's context.
+ */
+export function startTask(target: EventTarget): void {
+  tasks.set(target, storage.captureAll());
+}
+
+/**
+ * Releases the task context once no further events for the task will be
+ * dispatched, so that the target doesn't keep the context alive.
+ */
+export function endTask(target: EventTarget): void {
+  tasks.delete(target);
+}
+
+/**
+ * Dispatches an event on behalf of an event source, in the context the
+ * source's propagation mode calls for.
+ */
+export function dispatchEvent(
+  target: EventTarget,
+  event: Event,
+  propagation: DispatchPropagation = "sync"
+): boolean {
+  switch (propagation) {
+    case "sync":
+      return nativeDispatch(target, event);
+    case "task":
+      return dispatchIn(tasks.get(target) ?? empty, target, event);
+    case "none":
+      return dispatchIn(empty, target, event);
+    case "registration": {
+      byRegistration.add(event);
+      try {
+        return dispatchIn(empty, target, event);
+      } finally {
+        byRegistration.delete(event);
+      }
+    }
+  }
+}
+
+function dispatchIn(
+  snapshot: FrozenRevert,
+  target: EventTarget,
+  event: Event
+): boolean {
+  const revert = storage.switchAll(snapshot);
+  try {
+    return nativeDispatch(target, event);
+  } finally {
+    storage.restoreAll(revert);
+  }
+}
+
+/**
+ * Error-reporting events (`ErrorEvent`, `PromiseRejectionEvent`) don't run
+ * their listeners in the context that caused the error, but expose it as an
+ * `asyncSnapshot` property so that logging code can read from it.
+ */
+export function exposeSnapshot<E extends Event>(
+  event: E,
+  snapshot: Snapshot = new Snapshot()
+): E & { readonly asyncSnapshot: Snapshot } {
+  return Object.defineProperty(event, "asyncSnapshot", {
+    value: snapshot,
+    enumerable: true,
+  }) as E & { readonly asyncSnapshot: Snapshot };
+}
+
+/**
+ * Like `AbortSignal.timeout`, but the signal is the holder object of the
+ * timeout task, so its `abort` event propagates the context that `timeout`
+ * was called in. Aborts caused by `AbortController#abort` are synchronous
+ * dispatches, and need no help.
+ */
+export function timeout(ms: number): AbortSignal {
+  const controller = new AbortController();
+  const { signal } = controller;
+  startTask(signal);
+
+  const timer = setTimeout(() => {
+    const revert = storage.switchAll(tasks.get(signal) ?? empty);
+    try {
+      controller.abort(timeoutError());
+    } finally {
+      storage.restoreAll(revert);
+      endTask(signal);
+    }
+  }, ms);
+  // Like the native timeout signal, don't keep the process alive.
+  timer.unref?.();
+  timers.set(signal, timer);
+
+  return signal;
+}
+
+/**
+ * The reason a timeout signal aborts with: a "TimeoutError" DOMException, as
+ * for the native one, or an Error of the same name where the runtime has no
+ * DOMException global (Node 16 and earlier).
+ */
+export function timeoutError(): Error {
+  const message = "The operation was aborted due to timeout";
+  if (typeof DOMException === "function") {
+    return new DOMException(message, "TimeoutError");
+  }
+  const error = new Error(message);
+  error.name = "TimeoutError";
+  return error;
+}
+
+/**
+ * Stops a signal created by `timeout` from ever aborting, for a caller that no
+ * longer needs it (unlike the native timeout signal, which can't be stopped).
+ */
+export function clearTimeoutSignal(signal: AbortSignal): void {
+  clearTimeout(timers.get(signal));
+  timers.delete(signal);
+  endTask(signal);
+}
+
+type Listener = EventListenerOrEventListenerObject;
+
+/**
+ * An EventTarget whose listeners each keep the context they were registered
+ * in, and whose `dispatchEvent` takes the dispatch's propagation mode (an
+ * event source marks whether its dispatch propagates context by passing it).
+ * A plain `dispatchEvent(event)` is a synchronous dispatch.
+ *
+ * It's only defined where the runtime has a global EventTarget (Node 15 and
+ * later), and is undefined elsewhere.
+ */
+export const ContextEventTarget =
+  typeof EventTarget === "function"
+    ? class ContextEventTarget extends EventTarget {
+        /**
+         * The wrapper registered for each listener, by type and capture
+         * flag, so that it can be removed again.
+         */
+        #wrappers = new Map<string, Map<Listener, EventListener>>();
+
+        addEventListener(
+          type: string,
+          listener: Listener | null,
+          options?: AddEventListenerOptions | boolean
+        ): void {
+          if (!listener) return super.addEventListener(type, listener, options);
+
+          const key = keyOf(type, options);
+          let wrappers = this.#wrappers.get(key);
+          if (!wrappers) {
+            wrappers = new Map();
+            this.#wrappers.set(key, wrappers);
+          }
+          // Like the native dedupe, the first registration keeps its context.
+          let wrapper = wrappers.get(listener);
+          if (!wrapper) {
+            const snapshot = storage.captureAll();
+            const forget = () => wrappers!.delete(listener);
+            wrapper = function (this: EventTarget, event: Event) {
+              if (typeof options === "object" && options.once) forget();
+
+              const revert = byRegistration.has(event)
+                ? storage.switchAll(snapshot)
+                : undefined;
+              try {
+                if (typeof listener === "function") {
+                  listener.call(this, event);
+                } else {
+                  listener.handleEvent(event);
+                }
+              } finally {
+                if (revert) storage.restoreAll(revert);
+              }
+            };
+            wrappers.set(listener, wrapper);
+            if (typeof options === "object") {
+              options.signal?.addEventListener("abort", forget, { once: true });
+            }
+          }
+          super.addEventListener(type, wrapper, options);
+        }
+
+        removeEventListener(
+          type: string,
+          listener: Listener | null,
+          options?: EventListenerOptions | boolean
+        ): void {
+          const key = keyOf(type, options);
+          const wrapper = listener && this.#wrappers.get(key)?.get(listener);
+          if (!wrapper)
+            return super.removeEventListener(type, listener, options);
+
+          this.#wrappers.get(key)!.delete(listener!);
+          super.removeEventListener(type, wrapper, options);
+        }
+
+        dispatchEvent(
+          event: Event,
+          propagation: DispatchPropagation = "sync"
+        ): boolean {
+          return dispatchEvent(this, event, propagation);
+        }
+      }
+    : undefined;
+
+function keyOf(
+  type: string,
+  options: EventListenerOptions | boolean | undefined
+): string {
+  const capture = typeof options === "object" ? options.capture : options;
+  return `${capture ? "capture" : "bubble"}:${type}`;
+}
+
+/**
+ * AbortSignal's static factories, with `timeout` propagating context (see
+ * `timeout` above). AbortSignal can't be subclassed, as its constructor
+ * throws, and signals from `AbortController#abort` and `abort` dispatch
+ * synchronously, so they need no help.
+ */
+export const ContextAbortSignal = {
+  abort: (reason?: unknown): AbortSignal => AbortSignal.abort(reason),
+  timeout,
+};
@@ -16,6 +16,14 @@ export class FrozenRevert {
     this.#mapping = mapping;
   }
 
+  /**
+   * The frozen Mapping, for reading the data of a snapshot without restoring
+   * it.
+   */
+  get mapping(): Mapping {
+    return this.#mapping;
+  }
+
   /**
    * The Storage container will call restore when it wants to revert its
    * current Mapping to the state at the start of the fork.
@@ -66,3 +74,44 @@ export class Revert<T> {
     }
   }
 }
+
+const ABSENT: unique symbol = Symbol("absent");
+
+/**
+ * RevertAll is a Revert for several modifications made in a single storage
+ * transition, recording the prior value of every key (or that it had none) in
+ * one flat array.
+ *
+ * The state is recorded before any of the modifications, and restored in
+ * reverse order, so a key that's modified twice ends up in its original state.
+ */
+export class RevertAll {
+  #state: unknown[];
+
+  constructor(
+    mapping: Mapping,
+    entries: ReadonlyArray<readonly [Variable<any>, unknown]>
+  ) {
+    const state = new Array(entries.length * 2);
+    for (let i = 0; i < entries.length; i++) {
+      const key = entries[i][0];
+      state[i * 2] = key;
+      state[i * 2 + 1] = mapping.has(key) ? mapping.get(key) : ABSENT;
+    }
+    this.#state = state;
+  }
+
+  /**
+   * Like Revert's, this modifies the known-unfrozen-at-start Mapping back,
+   * which reallocates only if someone has since taken a snapshot.
+   */
+  restore(current: Mapping): Mapping {
+    const state = this.#state;
+    for (let i = state.length - 2; i >= 0; i -= 2) {
+      const key = state[i] as Variable<unknown>;
+      const prev = state[i + 1];
+      current = prev === ABSENT ? current.delete(key) : current.set(key, prev);
+    }
+    return current;
+  }
+}
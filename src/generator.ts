@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+
+type AnyGenerator = Generator<any, any, any> | AsyncGenerator<any, any, any>;
+type GeneratorFunction = (this: any, ...args: any) => AnyGenerator;
+
+const RESUME_METHODS = ["next", "throw", "return"] as const;
+
+/**
+ * Wraps a generator function (or async generator function) so that its body
+ * runs in the context the generator object was created in, as GeneratorStart
+ * specifies, rather than in whatever context calls `next`.
+ *
+ * Each resume method of the generator object is replaced by an own property
+ * that switches to the creation snapshot around the native method, so the
+ * object is still a genuine generator.
+ *
+ * An async generator queues requests made while its body is running, and
+ * resumes the body for them from engine internals, outside of any switch. So
+ * the wrapper queues them itself instead: a request made while another is
+ * pending calls the native method once the pending ones have settled. A body
+ * that resumes after a native `await` is still only restored by the promise
+ * polyfill (see promise-polyfill.ts).
+ */
+export function wrapGenerator<F extends GeneratorFunction>(fn: F): F {
+  function wrap(this: ThisParameterType<F>, ...args: Parameters<F>) {
+    const snapshot = storage.captureAll();
+    const generator = fn.apply(this, args) as AnyGenerator;
+    const serialize = Symbol.asyncIterator in generator ? queue() : undefined;
+
+    for (const method of RESUME_METHODS) {
+      const resume = generator[method] as (...args: unknown[]) => unknown;
+      function run(this: AnyGenerator, args: unknown[]) {
+        const revert = storage.switchAll(snapshot);
+        try {
+          return resume.apply(this, args);
+        } finally {
+          storage.restoreAll(revert);
+        }
+      }
+
+      Object.defineProperty(generator, method, {
+        value(this: AnyGenerator, ...args: unknown[]) {
+          return serialize
+            ? serialize(() => run.call(this, args) as Promise<unknown>)
+            : run.call(this, args);
+        },
+        writable: true,
+        configurable: true,
+      });
+    }
+    return generator;
+  }
+
+  return wrap as unknown as F;
+}
+
+/**
+ * Runs each request once every earlier one has settled, or immediately if
+ * none is pending.
+ */
+function queue() {
+  let last: Promise<unknown> | undefined;
+  let pending = 0;
+  const settle = () => {
+    if (--pending === 0) last = undefined;
+  };
+
+  return (request: () => Promise<unknown>): Promise<unknown> => {
+    const result = last ? last.then(request) : request();
+    pending++;
+    last = result.then(settle, settle);
+    return result;
+  };
+}
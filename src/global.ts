@@ -0,0 +1,9 @@
+import { install } from "./native";
+
+/**
+ * The one import that's correct on every runtime: the native AsyncContext
+ * where the engine provides it, and otherwise the polyfill, installed as the
+ * global. Node's Promise instrumentation is only loaded in the latter case, so
+ * runtimes without Node's modules can load this too.
+ */
+export const AsyncContext = install();
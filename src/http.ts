@@ -0,0 +1,137 @@
+import { randomUUID } from "crypto";
+import { Snapshot } from "./snapshot";
+import { isThenable } from "./types";
+import { Variable } from "./variable";
+
+import type { EventEmitter } from "events";
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "http";
+
+export interface RequestContext {
+  readonly id: string;
+  /** When the request was received, in `Date.now()` milliseconds. */
+  readonly startTime: number;
+  /** Reads an incoming header, by case-insensitive name. */
+  getHeader<K extends string>(name: K): IncomingHttpHeaders[Lowercase<K>];
+}
+
+export interface RequestContextOptions {
+  /**
+   * Picks the request's ID. By default, that's a single `x-request-id`
+   * header sent by the client, or else a random UUID.
+   */
+  requestId?: (req: IncomingMessage) => string;
+
+  /**
+   * Handles an error thrown by the handler, or a rejection of the promise it
+   * returns, in the context the error was thrown in. By default, the request
+   * fails with a 500 (or, once the headers are sent, the response is
+   * destroyed).
+   *
+   * Errors thrown from plain callbacks aren't caught: a timer callback, or a
+   * listener of the request or response, throws as it would without this
+   * wrapper (to `emit`, or as an uncaught exception). To reach `onError`, an
+   * asynchronous error must reject the handler's promise, e.g. by awaiting a
+   * promise for the timer.
+   */
+  onError?: (error: unknown, req: IncomingMessage, res: ServerResponse) => void;
+}
+
+const current = new Variable<RequestContext | undefined>({ name: "request" });
+
+/**
+ * Wraps a `node:http` (or `node:https`) request handler, so that each request
+ * is handled in a fresh context with the request's RequestContext.
+ *
+ * Node emits the events of the request and response (body chunks, `end`,
+ * `finish`, `close`) from the socket, outside of the request's context. So
+ * those events are emitted in the context the handler was called in, with the
+ * request's RequestContext. Events emitted from within the request (say, by
+ * the handler calling `emit` itself) keep the context they're emitted in.
+ * Listeners themselves are left as they were added.
+ */
+export function withRequestContext<
+  Req extends IncomingMessage,
+  Res extends ServerResponse
+>(
+  handler: (req: Req, res: Res) => unknown,
+  options: RequestContextOptions = {}
+): (req: Req, res: Res) => void {
+  const { requestId = defaultRequestId, onError = defaultOnError } = options;
+
+  return function (this: unknown, req, res) {
+    const report = (error: unknown) => onError(error, req, res);
+
+    try {
+      const context: RequestContext = {
+        id: requestId(req),
+        startTime: Date.now(),
+        getHeader: (name) =>
+          req.headers[name.toLowerCase() as Lowercase<typeof name>],
+      };
+      current.run(context, () => {
+        const snapshot = new Snapshot();
+        bindEvents(req, context, snapshot);
+        bindEvents(res, context, snapshot);
+
+        try {
+          const result = handler.call(this, req, res);
+          if (isThenable(result)) {
+            result.then(undefined, Snapshot.wrap(report));
+          }
+        } catch (e) {
+          report(e);
+        }
+      });
+    } catch (e) {
+      report(e);
+    }
+  };
+}
+
+/**
+ * Patches the emitter's own `emit`, so that an event emitted outside of the
+ * request (from the socket, or from another request) is emitted in the
+ * request's snapshot. Listeners aren't wrapped, and nothing they throw is
+ * caught.
+ */
+function bindEvents(
+  emitter: EventEmitter,
+  context: RequestContext,
+  snapshot: Snapshot
+): void {
+  const emit = emitter.emit;
+  emitter.emit = function (this: EventEmitter, ...args) {
+    if (current.get() === context) return emit.apply(this, args);
+    return snapshot.run(() => emit.apply(this, args));
+  };
+}
+
+/**
+ * The RequestContext of the request being handled, or undefined outside of
+ * any request.
+ */
+export function currentRequest(): RequestContext | undefined {
+  return current.get();
+}
+
+function defaultRequestId(req: IncomingMessage): string {
+  const id = req.headers["x-request-id"];
+  return typeof id === "string" && id ? id : randomUUID();
+}
+
+function defaultOnError(
+  _error: unknown,
+  _req: IncomingMessage,
+  res: ServerResponse
+): void {
+  if (res.headersSent) {
+    res.destroy();
+  } else {
+    res.statusCode = 500;
+    res.end();
+  }
+}
@@ -1,8 +1,24 @@
+import { ContinuationVariable } from "./continuation-variable";
+import { createDomain } from "./domain";
 import { Snapshot } from "./snapshot";
-import { Variable } from "./variable";
+import { Variable, dispose, runAll } from "./variable";
 
 export const AsyncContext = {
+  ContinuationVariable,
   Snapshot,
   Variable,
+  runAll,
 };
-export { Snapshot, Variable };
+export {
+  ContinuationVariable,
+  Snapshot,
+  Variable,
+  createDomain,
+  dispose,
+  runAll,
+};
+
+export type { Domain } from "./domain";
+export type { SerializedSnapshot, VariableSerializer } from "./serialization";
+export type { SnapshotEntries } from "./snapshot";
+export type { VariableEntries } from "./variable";
@@ -0,0 +1,185 @@
+import { performance } from "perf_hooks";
+
+import type { FrozenRevert } from "./fork";
+
+/**
+ * A node of the task tree. A "capture" is a snapshot of the context (by
+ * `Snapshot`, `Snapshot.wrap`, a promise reaction's registration, or any
+ * other host integration), whose parent is the run it was captured in. A
+ * "run" is a switch into a snapshot (calling a wrapped function, running a
+ * promise reaction, `Snapshot#run`), whose parent is the capture it switched
+ * into.
+ *
+ * A parent of null is the top level: code that isn't running in any switched
+ * snapshot, or a run of a snapshot that was captured before recording began.
+ */
+export interface LineageTask {
+  id: number;
+  parentId: number | null;
+  type: "capture" | "run";
+  /** Milliseconds since `performance.timeOrigin`. */
+  start: number;
+  /** When the run ended, if it has. Captures have no duration. */
+  end?: number;
+}
+
+export interface LineageNode extends LineageTask {
+  children: LineageNode[];
+}
+
+/**
+ * An event of the Trace Event Format, which `chrome://tracing` and Perfetto
+ * load (as `{ traceEvents }`).
+ */
+export interface TraceEvent {
+  name: string;
+  cat: string;
+  ph: "X" | "i" | "s" | "f";
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  id?: number;
+  bp?: "e";
+  s?: "t";
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Whether lineage is being recorded. Storage checks this before recording
+ * anything, so with recording stopped the cost is a single check per
+ * capture and transition.
+ */
+export const lineage = { enabled: false };
+
+let tasks: LineageTask[] = [];
+let nextId = 1;
+const running: LineageTask[] = [];
+const captures = new WeakMap<FrozenRevert, LineageTask>();
+const runs = new WeakMap<object, LineageTask>();
+
+/**
+ * Starts recording lineage, discarding anything recorded before.
+ */
+export function startLineage(): void {
+  tasks = [];
+  running.length = 0;
+  lineage.enabled = true;
+}
+
+/**
+ * Stops recording lineage, returning every task recorded, in the order they
+ * began.
+ */
+export function stopLineage(): LineageTask[] {
+  lineage.enabled = false;
+  running.length = 0;
+  const recorded = tasks;
+  tasks = [];
+  return recorded;
+}
+
+/**
+ * The tasks recorded so far, without stopping.
+ */
+export function recordedLineage(): LineageTask[] {
+  return tasks.slice();
+}
+
+// Storage calls these while recording: when a snapshot is captured, when it's
+// switched into, and when any revert is restored.
+
+export function captured(snapshot: FrozenRevert): void {
+  captures.set(snapshot, record("capture", current()));
+}
+
+export function switched(snapshot: FrozenRevert, revert: FrozenRevert): void {
+  const capture = captures.get(snapshot);
+  const task = record("run", capture ? capture.id : current());
+  running.push(task);
+  runs.set(revert, task);
+}
+
+export function restored(revert: object): void {
+  const task = runs.get(revert);
+  if (!task) return;
+  task.end = performance.now();
+
+  const index = running.lastIndexOf(task);
+  if (index !== -1) running.length = index;
+}
+
+function current(): number | null {
+  return running.length ? running[running.length - 1].id : null;
+}
+
+function record(type: LineageTask["type"], parentId: number | null) {
+  const task: LineageTask = {
+    id: nextId++,
+    parentId,
+    type,
+    start: performance.now(),
+  };
+  tasks.push(task);
+  return task;
+}
+
+/**
+ * Nests the tasks under their parents, for dumping as JSON. Tasks whose parent
+ * isn't among them are roots.
+ */
+export function lineageTree(tasks: readonly LineageTask[]): LineageNode[] {
+  const nodes = new Map<number, LineageNode>();
+  for (const task of tasks) {
+    nodes.set(task.id, { ...task, children: [] });
+  }
+
+  const roots: LineageNode[] = [];
+  for (const node of nodes.values()) {
+    const parent =
+      node.parentId === null ? undefined : nodes.get(node.parentId);
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+/**
+ * Converts the tasks to Trace Event Format: every run is a complete event,
+ * every capture an instant event, and each capture is connected to the runs
+ * of it by a flow arrow.
+ */
+export function toChromeTrace(tasks: readonly LineageTask[]): {
+  traceEvents: TraceEvent[];
+} {
+  const base = { cat: "async-context", pid: process.pid, tid: 0 };
+  const captureIds = new Set(
+    tasks.filter((task) => task.type === "capture").map((task) => task.id)
+  );
+  const micros = (ms: number) => Math.round(ms * 1000);
+
+  const traceEvents: TraceEvent[] = [];
+  for (const task of tasks) {
+    const ts = micros(task.start);
+    const args = { id: task.id, parentId: task.parentId };
+    if (task.type === "capture") {
+      traceEvents.push({ ...base, name: "capture", ph: "i", s: "t", ts, args });
+      traceEvents.push({ ...base, name: "lineage", ph: "s", ts, id: task.id });
+      continue;
+    }
+
+    const end = task.end === undefined ? task.start : task.end;
+    const dur = micros(end) - ts;
+    traceEvents.push({ ...base, name: "run", ph: "X", ts, dur, args });
+    if (task.parentId !== null && captureIds.has(task.parentId)) {
+      traceEvents.push({
+        ...base,
+        name: "lineage",
+        ph: "f",
+        bp: "e",
+        ts,
+        id: task.parentId,
+      });
+    }
+  }
+  return { traceEvents };
+}
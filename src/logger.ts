@@ -0,0 +1,188 @@
+import { format } from "util";
+import { storage as defaultStorage, storageOf } from "./storage";
+
+import type { Domain } from "./domain";
+import type { Storage } from "./storage";
+import type { Variable } from "./variable";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A structured log record: the time, level and message, then the value of
+ * every loggable Variable that's set in the current context, then the fields
+ * passed along with the message (which win over a Variable of the same name,
+ * but can't replace the record's own fields).
+ */
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  message: string;
+  [field: string]: unknown;
+}
+
+export interface LoggerOptions {
+  /** Records below this level are dropped. Defaults to "info". */
+  level?: LogLevel;
+  /** Receives every record. Defaults to JSON lines on stdout. */
+  write?: (record: LogRecord) => void;
+  /**
+   * The domain whose loggable Variables are attached to records. Defaults to
+   * the default domain.
+   */
+  domain?: Domain;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const RESERVED = new Set(["time", "level", "message"]);
+
+/**
+ * Marks the Variable as loggable, under its name. Names must be unique within
+ * the Variable's domain (and not one of the record's own fields), else a
+ * record couldn't say which Variable a field belongs to.
+ *
+ * Mappings can't be enumerated publicly, so this registry is the only way a
+ * Variable's value reaches a log record.
+ */
+export function registerLoggable(variable: Variable<any>): void {
+  checkLoggable(variable);
+  storageOf(variable.constructor).loggable.set(variable.name, variable);
+}
+
+/**
+ * Throws if the Variable can't be registered as loggable.
+ */
+export function checkLoggable(variable: Variable<any>): void {
+  const { name } = variable;
+  if (!name) {
+    throw new TypeError("A loggable Variable must have a name");
+  }
+  if (RESERVED.has(name)) {
+    throw new TypeError(`"${name}" is reserved for log records`);
+  }
+  if (storageOf(variable.constructor).loggable.has(name)) {
+    throw new TypeError(`A Variable is already loggable as "${name}"`);
+  }
+}
+
+/**
+ * The value of every loggable Variable of the domain that's set in its current
+ * context, by name. Variables holding only their default value are left out.
+ */
+export function logContext(domain?: Domain): Record<string, unknown> {
+  return contextOf(domain ? storageOf(domain.Variable) : defaultStorage);
+}
+
+function contextOf(storage: Storage): Record<string, unknown> {
+  const context: Record<string, unknown> = {};
+  storage.loggable.forEach((variable, name) => {
+    if (storage.has(variable)) context[name] = storage.get(variable);
+  });
+  return context;
+}
+
+export class Logger {
+  #level: number;
+  #write: (record: LogRecord) => void;
+  #storage: Storage;
+
+  constructor(options: LoggerOptions = {}) {
+    this.#level = LEVELS[options.level ?? "info"];
+    this.#write = options.write ?? jsonLines();
+    this.#storage = options.domain
+      ? storageOf(options.domain.Variable)
+      : defaultStorage;
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log("error", message, fields);
+  }
+
+  log(
+    level: LogLevel,
+    message: string,
+    fields?: Record<string, unknown>
+  ): void {
+    if (LEVELS[level] < this.#level) return;
+
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      message,
+    };
+    const extra = { ...contextOf(this.#storage), ...fields };
+    for (const field of Object.keys(extra)) {
+      if (!RESERVED.has(field)) record[field] = extra[field];
+    }
+    this.#write(record);
+  }
+}
+
+/**
+ * A `write` option that prints each record as one line of JSON. Errors are
+ * written as their name, message and stack, and bigints as strings, since
+ * neither survives `JSON.stringify` on its own.
+ */
+export function jsonLines(
+  stream: { write(chunk: string): unknown } = process.stdout
+): (record: LogRecord) => void {
+  return (record) => {
+    stream.write(JSON.stringify(record, replacer) + "\n");
+  };
+}
+
+function replacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return String(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+const CONSOLE_LEVELS = {
+  debug: "debug",
+  log: "info",
+  info: "info",
+  warn: "warn",
+  error: "error",
+} as const;
+
+/**
+ * Replaces the `console` logging methods with ones that format their arguments
+ * (as `console.log` does) into the message of a record written by the logger.
+ * Returns a function that restores the original methods.
+ *
+ * The logger must not write to the patched `console` itself.
+ */
+export function patchConsole(logger: Logger = new Logger()): () => void {
+  const original = { ...console };
+  for (const [method, level] of Object.entries(CONSOLE_LEVELS)) {
+    console[method as keyof typeof CONSOLE_LEVELS] = (...args: unknown[]) => {
+      logger.log(level, format(...args));
+    };
+  }
+
+  return () => {
+    for (const method of Object.keys(CONSOLE_LEVELS)) {
+      const key = method as keyof typeof CONSOLE_LEVELS;
+      console[key] = original[key];
+    }
+  };
+}
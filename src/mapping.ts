@@ -1,11 +1,24 @@
 import type { Variable } from "./variable";
 
+type Key = Variable<unknown>;
+
+/**
+ * Mappings with up to this many entries store them in a flat array of
+ * alternating keys and values, which is cheaper to search and to copy than
+ * any tree. Larger Mappings are stored in a hash array mapped trie.
+ */
+const SMALL = 8;
+
 /**
  * Stores all Variable data, and tracks whether any snapshots have been
  * taken of the current data.
+ *
+ * The data is persistent: forking a frozen Mapping shares all of the data with
+ * the new instance, which copies only what it modifies (the small array, or
+ * the path to the modified key in the trie).
  */
 export class Mapping {
-  #data: Map<Variable<unknown>, unknown>;
+  #data: unknown[] | Node;
 
   /**
    * If a snapshot of this data is taken, then further modifications cannot be
@@ -14,16 +27,34 @@ export class Mapping {
    */
   #frozen = false;
 
-  constructor(data: Map<Variable<unknown>, unknown>) {
+  /**
+   * Identifies the data this instance allocated itself, and so can modify in
+   * place. For the trie, this marks the owner of each Node; the small array is
+   * owned only if it was allocated after this instance was created.
+   */
+  #owner: object | null = null;
+  #ownsSmall = false;
+
+  constructor(data: unknown[] | Node = []) {
     this.#data = data;
   }
 
   has<T>(key: Variable<T>): boolean {
-    return this.#data.has(key) || false;
+    return this.#lookup(key) !== NOT_FOUND;
   }
 
   get<T>(key: Variable<T>): T | undefined {
-    return this.#data.get(key) as T | undefined;
+    const value = this.#lookup(key);
+    return value === NOT_FOUND ? undefined : (value as T);
+  }
+
+  /**
+   * Whether no Variable holds a value in this Mapping, which is the case for
+   * the empty context that host callbacks without a JS cause run in.
+   */
+  isEmpty(): boolean {
+    const data = this.#data;
+    return Array.isArray(data) ? data.length === 0 : data.bitmap === 0;
   }
 
   /**
@@ -32,7 +63,31 @@ export class Mapping {
    */
   set<T>(key: Variable<T>, value: T): Mapping {
     const mapping = this.#fork();
-    mapping.#data.set(key, value);
+    const data = mapping.#data;
+
+    if (!Array.isArray(data)) {
+      mapping.#data = insert(data, 0, key, hashOf(key), value, mapping.#own());
+      return mapping;
+    }
+
+    const index = indexOf(data, key);
+    if (index === -1 && data.length === SMALL * 2) {
+      let root = empty();
+      const owner = mapping.#own();
+      for (let i = 0; i < data.length; i += 2) {
+        const k = data[i] as Variable<unknown>;
+        root = insert(root, 0, k, hashOf(k), data[i + 1], owner);
+      }
+      mapping.#data = insert(root, 0, key, hashOf(key), value, owner);
+      return mapping;
+    }
+
+    const small = mapping.#ownSmall();
+    if (index === -1) {
+      small.push(key, value);
+    } else {
+      small[index + 1] = value;
+    }
     return mapping;
   }
 
@@ -42,10 +97,68 @@ export class Mapping {
    */
   delete<T>(key: Variable<T>): Mapping {
     const mapping = this.#fork();
-    mapping.#data.delete(key);
+    const data = mapping.#data;
+
+    if (!Array.isArray(data)) {
+      mapping.#data = remove(data, 0, key, hashOf(key), mapping.#own());
+      return mapping;
+    }
+
+    const index = indexOf(data, key);
+    if (index !== -1) {
+      // Unlike splice, this doesn't allocate an array of the removed entry.
+      const small = mapping.#ownSmall();
+      small.copyWithin(index, index + 2);
+      small.length -= 2;
+    }
     return mapping;
   }
 
+  /**
+   * Replaces the state of every key matched by the predicate with its state in
+   * the other Mapping, allocating a new Mapping if this instance is frozen and
+   * anything changes.
+   */
+  graft(
+    other: Mapping,
+    predicate: (key: Variable<unknown>) => boolean
+  ): Mapping {
+    const removed: Variable<unknown>[] = [];
+    this.forEach((key) => {
+      if (predicate(key) && !other.has(key)) removed.push(key);
+    });
+
+    let mapping: Mapping = this;
+    for (const key of removed) {
+      mapping = mapping.delete(key);
+    }
+    other.forEach((key, value) => {
+      if (!predicate(key)) return;
+      if (mapping.has(key) && mapping.get(key) === value) return;
+      mapping = mapping.set(key, value);
+    });
+    return mapping;
+  }
+
+  /**
+   * Whether both Mappings hold the same value (by SameValue) for the same set
+   * of keys. Forks share their data, so that's checked first.
+   */
+  equals(other: Mapping): boolean {
+    if (this.#data === other.#data) return true;
+
+    let size = 0;
+    let equal = true;
+    this.forEach((key, value) => {
+      size++;
+      if (equal && !Object.is(other.#lookup(key), value)) equal = false;
+    });
+    if (!equal) return false;
+
+    other.forEach(() => size--);
+    return size === 0;
+  }
+
   /**
    * Prevents further modifications to this Mapping.
    */
@@ -60,11 +173,251 @@ export class Mapping {
   /**
    * We only need to fork if the Mapping is frozen (someone has a snapshot of
    * the current data), else we can just modify our data directly.
+   *
+   * Forking doesn't copy anything: the new instance doesn't own any of the
+   * shared data, so it will copy whatever it modifies.
    */
   #fork(): Mapping {
     if (this.#frozen) {
-      return new Mapping(new Map(this.#data));
+      return new Mapping(this.#data);
     }
     return this;
   }
+
+  #own(): object {
+    return (this.#owner ??= {});
+  }
+
+  #ownSmall(): unknown[] {
+    const data = this.#data as unknown[];
+    if (this.#ownsSmall) return data;
+
+    this.#ownsSmall = true;
+    return (this.#data = data.slice());
+  }
+
+  #lookup(key: Variable<unknown>): unknown {
+    const data = this.#data;
+    if (!Array.isArray(data)) return lookup(data, key, hashOf(key));
+
+    const index = indexOf(data, key);
+    return index === -1 ? NOT_FOUND : data[index + 1];
+  }
+
+  /**
+   * Calls the function with every key and value, in no particular order.
+   */
+  forEach(fn: (key: Variable<unknown>, value: unknown) => void): void {
+    const data = this.#data;
+    if (!Array.isArray(data)) return forEach(data, fn);
+
+    for (let i = 0; i < data.length; i += 2) {
+      fn(data[i] as Variable<unknown>, data[i + 1]);
+    }
+  }
+}
+
+function indexOf(data: unknown[], key: Variable<unknown>): number {
+  for (let i = 0; i < data.length; i += 2) {
+    if (data[i] === key) return i;
+  }
+  return -1;
+}
+
+/**
+ * A bitmap-indexed node of a hash array mapped trie.
+ *
+ * Every set bit of the bitmap corresponds to a pair of slots, in bit order.
+ * The first slot holds the key and the second its value, or a null key and a
+ * child Node holding every entry that shares the hash bits so far.
+ *
+ * A Node is persistent (every modification returns a new Node, sharing all
+ * unchanged children), unless its owner is the same owner that's modifying
+ * it. Then, no one else can be holding the Node and it's edited in place.
+ */
+interface Node {
+  owner: object | null;
+  bitmap: number;
+  slots: unknown[];
+}
+
+const BITS = 5;
+const MASK = (1 << BITS) - 1;
+
+const NOT_FOUND: unique symbol = Symbol("not found");
+
+let nextHash = 0;
+const hashes = new WeakMap<Key, number>();
+
+/**
+ * Keys are hashed in creation order, so the hashes are unique (for the first
+ * 2^32 keys) and the trie never needs to handle collisions. The hashes are
+ * kept aside, so that keys (which user code can inspect) are never modified.
+ */
+function hashOf(key: Key): number {
+  let hash = hashes.get(key);
+  if (hash === undefined) {
+    hash = nextHash++ | 0;
+    hashes.set(key, hash);
+  }
+  return hash;
+}
+
+function empty(): Node {
+  return { owner: null, bitmap: 0, slots: [] };
+}
+
+function lookup(node: Node, key: Key, hash: number): unknown {
+  for (let shift = 0; ; shift += BITS) {
+    const bit = bitFor(hash, shift);
+    if ((node.bitmap & bit) === 0) return NOT_FOUND;
+
+    const index = indexFor(node.bitmap, bit);
+    const k = node.slots[index];
+    if (k !== null) return k === key ? node.slots[index + 1] : NOT_FOUND;
+    node = node.slots[index + 1] as Node;
+  }
+}
+
+function insert(
+  node: Node,
+  shift: number,
+  key: Key,
+  hash: number,
+  value: unknown,
+  owner: object
+): Node {
+  const bit = bitFor(hash, shift);
+  const index = indexFor(node.bitmap, bit);
+
+  if ((node.bitmap & bit) === 0) {
+    const edit = editable(node, owner);
+    edit.bitmap |= bit;
+    edit.slots.splice(index, 0, key, value);
+    return edit;
+  }
+
+  const k = node.slots[index] as Key | null;
+  const v = node.slots[index + 1];
+  if (k === null) {
+    const child = insert(v as Node, shift + BITS, key, hash, value, owner);
+    return child === v ? node : replace(node, owner, index + 1, child);
+  }
+  if (k === key) {
+    return v === value ? node : replace(node, owner, index + 1, value);
+  }
+
+  // Another key shares the hash bits so far, so both move into a new child.
+  const child = pair(shift + BITS, k, hashOf(k), v, key, hash, value, owner);
+  const edit = editable(node, owner);
+  edit.slots[index] = null;
+  edit.slots[index + 1] = child;
+  return edit;
+}
+
+function remove(
+  node: Node,
+  shift: number,
+  key: Key,
+  hash: number,
+  owner: object
+): Node {
+  const bit = bitFor(hash, shift);
+  if ((node.bitmap & bit) === 0) return node;
+
+  const index = indexFor(node.bitmap, bit);
+  const k = node.slots[index];
+  const v = node.slots[index + 1];
+  if (k === null) {
+    const child = remove(v as Node, shift + BITS, key, hash, owner);
+    if (child === v) return node;
+    if (child.bitmap === 0) return removeAt(node, owner, bit, index);
+
+    // Pull a lone remaining entry back up, so the trie stays shallow.
+    if (isSingle(child.bitmap) && child.slots[0] !== null) {
+      const edit = editable(node, owner);
+      edit.slots[index] = child.slots[0];
+      edit.slots[index + 1] = child.slots[1];
+      return edit;
+    }
+    return replace(node, owner, index + 1, child);
+  }
+  return k === key ? removeAt(node, owner, bit, index) : node;
+}
+
+function forEach(node: Node, fn: (key: Key, value: unknown) => void): void {
+  const { slots } = node;
+  for (let i = 0; i < slots.length; i += 2) {
+    const k = slots[i] as Key | null;
+    if (k === null) {
+      forEach(slots[i + 1] as Node, fn);
+    } else {
+      fn(k, slots[i + 1]);
+    }
+  }
+}
+
+function pair(
+  shift: number,
+  k1: Key,
+  h1: number,
+  v1: unknown,
+  k2: Key,
+  h2: number,
+  v2: unknown,
+  owner: object
+): Node {
+  const b1 = bitFor(h1, shift);
+  const b2 = bitFor(h2, shift);
+  if (b1 === b2) {
+    const child = pair(shift + BITS, k1, h1, v1, k2, h2, v2, owner);
+    return { owner, bitmap: b1, slots: [null, child] };
+  }
+  const slots = b1 < b2 ? [k1, v1, k2, v2] : [k2, v2, k1, v1];
+  return { owner, bitmap: b1 | b2, slots };
+}
+
+function editable(node: Node, owner: object): Node {
+  if (node.owner === owner) return node;
+  return { owner, bitmap: node.bitmap, slots: node.slots.slice() };
+}
+
+function replace(
+  node: Node,
+  owner: object,
+  index: number,
+  value: unknown
+): Node {
+  const edit = editable(node, owner);
+  edit.slots[index] = value;
+  return edit;
+}
+
+function removeAt(node: Node, owner: object, bit: number, index: number) {
+  const edit = editable(node, owner);
+  edit.bitmap &= ~bit;
+  edit.slots.splice(index, 2);
+  return edit;
+}
+
+function bitFor(hash: number, shift: number): number {
+  return 1 << ((hash >>> shift) & MASK);
+}
+
+/**
+ * The index of the first slot of the bit's pair, which is twice the number of
+ * bits set below it.
+ */
+function indexFor(bitmap: number, bit: number): number {
+  return popcount(bitmap & (bit - 1)) * 2;
+}
+
+function isSingle(bitmap: number): boolean {
+  return (bitmap & (bitmap - 1)) === 0;
+}
+
+function popcount(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
 }
@@ -0,0 +1,207 @@
+import { AsyncContext as polyfill } from "./index";
+
+import type * as PromisePolyfill from "./promise-polyfill";
+import type { Snapshot } from "./snapshot";
+import type { Variable } from "./variable";
+
+/**
+ * The shape shared by the native API and the polyfill.
+ */
+export interface AsyncContextAPI {
+  Variable: typeof Variable;
+  Snapshot: typeof Snapshot;
+}
+
+export interface SelfCheckMismatch {
+  scenario: string;
+  native: unknown;
+  polyfill: unknown;
+}
+
+export interface InstallOptions {
+  /**
+   * Receives the scenarios where a native implementation disagrees with the
+   * polyfill. Defaults to a console warning.
+   */
+  onMismatch?: (mismatches: SelfCheckMismatch[]) => void;
+
+  /**
+   * Installs the Promise instrumentation the polyfill needs, once it's defined
+   * as the global. Defaults to requiring promise-polyfill.ts (which needs
+   * Node's `v8` module) at that point. Runtimes without it pass their own.
+   */
+  instrument?: () => void;
+}
+
+function current(): AsyncContextAPI | undefined {
+  const { AsyncContext: api } = globalThis as {
+    AsyncContext?: Partial<AsyncContextAPI> | null;
+  };
+  if (api == null) return undefined;
+  if (
+    typeof api.Variable !== "function" ||
+    typeof api.Snapshot !== "function"
+  ) {
+    return undefined;
+  }
+  return api as AsyncContextAPI;
+}
+
+/**
+ * Whether the API is implemented by the engine, rather than by a polyfill
+ * (this one, or another copy of it).
+ */
+export function isNative(api: AsyncContextAPI): boolean {
+  const source = Function.prototype.toString.call(api.Variable);
+  return /\{\s*\[native code\]\s*\}\s*$/.test(source);
+}
+
+/**
+ * Returns the global AsyncContext if the runtime (or an earlier install)
+ * already provides one, so that everything shares a single context. Else, it
+ * defines the polyfill as the global (like a builtin, writable and
+ * non-enumerable) and installs the Promise instrumentation it needs (see
+ * `instrument`).
+ *
+ * A native global is checked against the polyfill in the background (see
+ * `selfCheck`), and any scenario where they disagree is reported to
+ * `onMismatch`.
+ *
+ * Node's host APIs need node-polyfill.ts installed as well, which isn't done
+ * here so that this module stays free of Node imports.
+ */
+export function install(options: InstallOptions = {}): AsyncContextAPI {
+  const existing = current();
+  if (existing) {
+    if (isNative(existing)) {
+      const { onMismatch = warnMismatches } = options;
+      selfCheck(existing).then((mismatches) => {
+        if (mismatches.length) onMismatch(mismatches);
+      });
+    }
+    return existing;
+  }
+
+  Object.defineProperty(globalThis, "AsyncContext", {
+    value: polyfill,
+    writable: true,
+    configurable: true,
+  });
+  const { instrument = instrumentPromises } = options;
+  instrument();
+  return polyfill;
+}
+
+/**
+ * The default `instrument`: Node's Promise instrumentation, required only on
+ * the polyfill's path, so that loading this module never loads Node's `v8`
+ * module. Where it can't be loaded, the polyfill runs without it.
+ */
+function instrumentPromises(): void {
+  const promisePolyfill = loadPromisePolyfill();
+  if (promisePolyfill) {
+    promisePolyfill.install();
+  } else {
+    console.warn(
+      "The AsyncContext polyfill has no Promise instrumentation for this " +
+        "runtime, so promise reactions won't propagate context"
+    );
+  }
+}
+
+function loadPromisePolyfill(): typeof PromisePolyfill | undefined {
+  try {
+    return require("./promise-polyfill");
+  } catch {
+    return undefined;
+  }
+}
+
+function warnMismatches(mismatches: SelfCheckMismatch[]): void {
+  const scenarios = mismatches.map((mismatch) => mismatch.scenario);
+  console.warn(
+    `The native AsyncContext disagrees with the polyfill on: ${scenarios.join(
+      ", "
+    )}`
+  );
+}
+
+type Scenario = (api: AsyncContextAPI) => unknown;
+
+const scenarios: Record<string, Scenario> = {
+  "run and get"({ Variable }) {
+    const v = new Variable({ defaultValue: 0 });
+    return [
+      v.get(),
+      v.run(1, () => [v.get(), v.run(2, () => v.get())]),
+      v.get(),
+    ];
+  },
+  name({ Variable }) {
+    return [new Variable().name, new Variable({ name: "v" }).name];
+  },
+  "run restores after throwing"({ Variable }) {
+    const v = new Variable<number>();
+    try {
+      v.run(1, () => {
+        throw new Error();
+      });
+    } catch {}
+    return v.get();
+  },
+  "run passes arguments"({ Variable }) {
+    return new Variable().run(1, (a: number, b: number) => a + b, 2, 3);
+  },
+  "snapshot run"({ Variable, Snapshot }) {
+    const v = new Variable<number>();
+    const snapshot = v.run(1, () => new Snapshot());
+    return v.run(2, () => [snapshot.run(() => v.get()), v.get()]);
+  },
+  "snapshot wrap"({ Variable, Snapshot }) {
+    const v = new Variable<number>();
+    const wrapped = v.run(1, () => {
+      return Snapshot.wrap(function (this: unknown, a: number) {
+        return [this, a, v.get()];
+      });
+    });
+    return v.run(2, () => wrapped.call("self", 3));
+  },
+  "promise reaction"({ Variable }) {
+    const v = new Variable<number>();
+    return v.run(1, () => Promise.resolve().then(() => v.get()));
+  },
+};
+
+/**
+ * Runs the same scenarios against the native API and the polyfill, and
+ * reports every scenario where they disagree. With no native API, there's
+ * nothing to compare against and it reports nothing.
+ *
+ * The promise scenario needs the Promise instrumentation, so it's skipped
+ * unless that is installed.
+ */
+export async function selfCheck(
+  native: AsyncContextAPI | undefined = current()
+): Promise<SelfCheckMismatch[]> {
+  if (!native || native === polyfill) return [];
+
+  const instrumented = loadPromisePolyfill()?.isInstalled() ?? false;
+  const mismatches: SelfCheckMismatch[] = [];
+  for (const [scenario, run] of Object.entries(scenarios)) {
+    if (scenario === "promise reaction" && !instrumented) continue;
+    const expected = await settle(() => run(native));
+    const actual = await settle(() => run(polyfill));
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      mismatches.push({ scenario, native: expected, polyfill: actual });
+    }
+  }
+  return mismatches;
+}
+
+async function settle(fn: () => unknown): Promise<unknown> {
+  try {
+    return { value: await fn() };
+  } catch (e) {
+    return { error: String(e) };
+  }
+}
@@ -0,0 +1,152 @@
+import { EventEmitter } from "events";
+import { promisify } from "util";
+import { wrapAll } from "./snapshot";
+import { storage } from "./storage";
+
+import type { AnyFunc } from "./types";
+
+type Listener = AnyFunc<any> & { listener?: AnyFunc<any> };
+
+const native = {
+  setTimeout: globalThis.setTimeout,
+  setInterval: globalThis.setInterval,
+  setImmediate: globalThis.setImmediate,
+  queueMicrotask: globalThis.queueMicrotask,
+  nextTick: process.nextTick,
+  on: EventEmitter.prototype.on,
+  addListener: EventEmitter.prototype.addListener,
+  prependListener: EventEmitter.prototype.prependListener,
+  once: EventEmitter.prototype.once,
+  prependOnceListener: EventEmitter.prototype.prependOnceListener,
+};
+
+let installed = false;
+
+/**
+ * Schedulers have only one context to propagate: the one active when they
+ * were called. Non-function callbacks are passed through so that the native
+ * API throws its usual error.
+ */
+function scheduler<F extends AnyFunc<any>>(nativeFn: F): F {
+  function schedule(this: unknown, callback: unknown, ...args: unknown[]) {
+    const cb =
+      typeof callback === "function"
+        ? wrapAll(callback as AnyFunc<any>)
+        : callback;
+    return nativeFn.call(this, cb, ...args);
+  }
+
+  // Keep `util.promisify(setTimeout)` and friends working.
+  const custom = (nativeFn as any)[promisify.custom];
+  if (custom) (schedule as any)[promisify.custom] = custom;
+
+  return schedule as unknown as F;
+}
+
+/**
+ * `emit` is synchronous, so a dispatch from within some context runs its
+ * listeners in that same context, exactly as without this patch. But emits
+ * driven by Node's I/O have no JS caller, and run in the empty context. In
+ * that case, the listener falls back to the context that was active when it
+ * was registered, because the I/O that causes the event was (nearly always)
+ * started from there.
+ *
+ * Nothing tells an I/O-driven emit apart from any other, so this is a
+ * heuristic: the empty context stands in for "no JS caller". A synchronous
+ * emit by JS code that happens to run in the empty context (at the top level,
+ * or within `Snapshot.from([]).run`) falls back to the registration context
+ * too, although the sync-dispatch rule would give it the empty context.
+ *
+ * The wrapper exposes the original function as `listener`, the same way that
+ * Node's own `once` wrappers do, so `removeListener` and `listeners` see
+ * through it.
+ */
+function wrapListener(fn: Listener, once: boolean, type: string | symbol) {
+  const snapshot = storage.captureAll();
+  let fired = false;
+
+  function listener(this: EventEmitter, ...args: unknown[]) {
+    if (once) {
+      if (fired) return;
+      fired = true;
+      this.removeListener(type, listener);
+    }
+
+    if (!storage.isEmptyAll()) return fn.apply(this, args);
+
+    const revert = storage.switchAll(snapshot);
+    try {
+      return fn.apply(this, args);
+    } finally {
+      storage.restoreAll(revert);
+    }
+  }
+  listener.listener = fn.listener ?? fn;
+
+  return listener;
+}
+
+function register(nativeFn: AnyFunc<EventEmitter>, once: boolean) {
+  return function (
+    this: EventEmitter,
+    type: string | symbol,
+    fn: Listener
+  ): EventEmitter {
+    if (typeof fn !== "function") return nativeFn.call(this, type, fn);
+    return nativeFn.call(this, type, wrapListener(fn, once, type));
+  };
+}
+
+/**
+ * Install patches Node's scheduling APIs (`setTimeout`, `setInterval`,
+ * `setImmediate`, `queueMicrotask` and `process.nextTick`) so that their
+ * callbacks run in the context they were scheduled from, and the
+ * `EventEmitter` registration methods so that listeners keep a context when
+ * an event is dispatched without one.
+ *
+ * Only the globals are patched: destructured references taken before install
+ * (including the `timers` module exports) keep their native behavior. Calling
+ * install more than once has no further effect.
+ */
+export function install(): void {
+  if (installed) return;
+  installed = true;
+
+  globalThis.setTimeout = scheduler(native.setTimeout);
+  globalThis.setInterval = scheduler(native.setInterval);
+  globalThis.setImmediate = scheduler(native.setImmediate);
+  globalThis.queueMicrotask = scheduler(native.queueMicrotask);
+  process.nextTick = scheduler(native.nextTick);
+
+  const proto = EventEmitter.prototype;
+  proto.on = proto.addListener = register(native.addListener, false);
+  proto.prependListener = register(native.prependListener, false);
+  proto.once = register(native.addListener, true);
+  proto.prependOnceListener = register(native.prependListener, true);
+}
+
+/**
+ * Uninstall restores the native APIs. Callbacks and listeners registered
+ * while the patch was installed keep their context.
+ */
+export function uninstall(): void {
+  if (!installed) return;
+  installed = false;
+
+  globalThis.setTimeout = native.setTimeout;
+  globalThis.setInterval = native.setInterval;
+  globalThis.setImmediate = native.setImmediate;
+  globalThis.queueMicrotask = native.queueMicrotask;
+  process.nextTick = native.nextTick;
+
+  const proto = EventEmitter.prototype;
+  proto.on = native.on;
+  proto.addListener = native.addListener;
+  proto.prependListener = native.prependListener;
+  proto.once = native.once;
+  proto.prependOnceListener = native.prependOnceListener;
+}
+
+export function isInstalled(): boolean {
+  return installed;
+}
@@ -1,13 +1,131 @@
-import { AsyncContext } from "./index";
+import * as v8 from "v8";
+import { isContinuationVariable } from "./continuation-variable";
+import { snapshotOf, wrapAll } from "./snapshot";
+import { storage } from "./storage";
 
+import type { Snapshot } from "./snapshot";
+import type { FrozenRevert } from "./fork";
 import type { AnyFunc } from "./types";
 
 export const nativeThen = Promise.prototype.then;
-const { wrap } = AsyncContext.Snapshot;
+let installed = false;
 
-function wrapFn<F extends AnyFunc<any>>(fn: F | null | undefined) {
+/**
+ * V8's promise lifecycle hooks (Node 16.14 and later). The bundled typings
+ * predate them, and older runtimes don't have them.
+ */
+interface PromiseHooks {
+  createHook(callbacks: {
+    init?: (promise: Promise<unknown>, parent?: Promise<unknown>) => void;
+    before?: (promise: Promise<unknown>) => void;
+    after?: (promise: Promise<unknown>) => void;
+    settled?: (promise: Promise<unknown>) => void;
+  }): () => void;
+}
+
+const { promiseHooks } = v8 as unknown as { promiseHooks?: PromiseHooks };
+
+/**
+ * Completion records the context a promise was settled in, for the benefit of
+ * ContinuationVariables. A promise that adopted another promise follows that
+ * promise's completion instead.
+ *
+ * Completion also records the context relevant to a rejection, for
+ * unhandled-rejection reporting (see "Unhandled rejection" in
+ * CONTINUATION.md). That follows Variable semantics, not ContinuationVariable
+ * ones: a promise derived by `then` is rejected by a reaction that runs in the
+ * context `then` was called in, even when it has no handler of its own.
+ *
+ * A promise settled by its resolving functions (or by engine internals, for
+ * `async` functions) records the context it settled in, via the promise
+ * hooks. A promise derived by `then` records its completion from the
+ * reaction instead, before the engine settles it.
+ *
+ * Both ContinuationVariables and rejection snapshots belong to the default
+ * domain, so a completion records only its context.
+ */
+interface Completion {
+  snapshot?: FrozenRevert;
+  follow?: Completion;
+  rejection?: FrozenRevert;
+}
+
+const completions = new WeakMap<object, Completion>();
+
+function completionOf(
+  completion: Completion | undefined
+): FrozenRevert | undefined {
+  while (completion) {
+    if (completion.snapshot) return completion.snapshot;
+    completion = completion.follow;
+  }
+  return undefined;
+}
+
+function settle(completion: Completion, value?: unknown): void {
+  const followed = isObject(value) ? completions.get(value) : undefined;
+  if (followed) {
+    completion.follow = followed;
+  } else {
+    completion.snapshot = storage.snapshot();
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === "function" || (typeof value === "object" && !!value);
+}
+
+function wrapFn<F extends AnyFunc<any>>(
+  fn: F | null | undefined,
+  registration: FrozenRevert,
+  source: Completion | undefined,
+  derived: Completion
+) {
   if (typeof fn !== "function") return undefined;
-  return wrap(fn);
+
+  return function (this: unknown, ...args: Parameters<F>) {
+    const revert = storage.switchAll(registration);
+    const completion = completionOf(source);
+    const graft = completion
+      ? storage.graft(completion, isContinuationVariable)
+      : undefined;
+    try {
+      // If the callback returns a thenable, the derived promise will adopt it
+      // from inside this reaction, so the thenable's `then` must be invoked in
+      // the reaction's context (and not whatever context runs the later job).
+      const result = adopt(fn.apply(this, args));
+      settle(derived, result);
+      return result;
+    } catch (e) {
+      settle(derived);
+      throw e;
+    } finally {
+      if (graft) storage.ungraft(graft);
+      storage.restoreAll(revert);
+    }
+  };
+}
+
+/**
+ * Resolving a promise with a thenable schedules a job that calls the
+ * thenable's `then` method. The spec snapshots the context when the resolve
+ * function is called (see NewPromiseResolveThenableJob), but the engine's job
+ * runs with whatever context is current. We read `then` eagerly (exactly as
+ * the resolve function would) and hand the engine a proxy thenable that calls
+ * it within the captured context.
+ *
+ * Native promises are left untouched, because the patched `then` already
+ * snapshots the context for each of their reactions.
+ */
+function adopt<T>(value: T): T {
+  if (!isObject(value)) return value;
+  const thenFn = (value as any).then;
+  if (typeof thenFn !== "function" || thenFn === then) return value;
+
+  const adopted = wrapAll(function (onFul: unknown, onRej: unknown) {
+    return thenFn.call(value, onFul, onRej);
+  });
+  return { then: adopted } as unknown as T;
 }
 
 export function then<T>(
@@ -19,8 +137,151 @@ export function then<T>(
   // possible that a new Request has been handled (and a new async context
   // created). We must wrap the callbacks to restore our creation context
   // when they are invoked.
-  const ful = wrapFn(onFul);
-  const rej = wrapFn(onRej);
+  //
+  // If the matching callback is missing, the derived promise settles the same
+  // way as this one, so it inherits this promise's completion.
+  const source = completions.get(this);
+  const registration = storage.captureAll();
+  const derived: Completion = { follow: source, rejection: registration };
+  const ful = wrapFn(onFul, registration, source, derived);
+  const rej = wrapFn(onRej, registration, source, derived);
+
+  const promise = nativeThen.call(this, ful, rej) as Promise<T>;
+  completions.set(promise, derived);
+  return promise;
+}
+
+/**
+ * The context each promise was created in. Every job the engine runs for a
+ * promise (its reactions, including the continuation of an `await`, and the
+ * adoption of a thenable it was resolved with) runs in that context, which
+ * is the context `then` or `await` was called in, or the one the promise was
+ * resolved in.
+ */
+const creations = new WeakMap<object, FrozenRevert>();
+
+/**
+ * The promise each promise was derived from: the one `then` was called on, or
+ * the one an `await` is waiting for (the engine creates a promise for the
+ * continuation, whose parent is the awaited promise).
+ */
+const parents = new WeakMap<object, object>();
+
+/**
+ * The reverts of the jobs in progress: the switch into the promise's creation
+ * context, and the graft of its parent's completion. A job that was entered
+ * while installed is exited even if uninstall happens in between, so the
+ * stack always balances.
+ */
+const jobs: Array<[FrozenRevert, FrozenRevert | undefined] | undefined> = [];
+
+let stopHooks: (() => void) | undefined;
+
+function startHooks(): void {
+  if (!promiseHooks) return;
+  stopHooks ??= promiseHooks.createHook({
+    init(promise, parent) {
+      if (!installed) return;
+      creations.set(promise, storage.captureAll());
+      if (parent) parents.set(promise, parent);
+    },
+    before(promise) {
+      const creation = installed ? creations.get(promise) : undefined;
+      if (!creation) return void jobs.push(undefined);
+
+      // Like a `then` reaction (see wrapFn), the job continues the flow of
+      // the promise it was derived from, which is how ContinuationVariables
+      // cross an `await`.
+      const revert = storage.switchAll(creation);
+      const parent = parents.get(promise);
+      const completion = parent && completionOf(completions.get(parent));
+      const graft = completion
+        ? storage.graft(completion, isContinuationVariable)
+        : undefined;
+      jobs.push([revert, graft]);
+    },
+    after() {
+      const job = jobs.pop();
+      if (job) {
+        if (job[1]) storage.ungraft(job[1]);
+        storage.restoreAll(job[0]);
+      }
+      if (!installed && !jobs.length) stop();
+    },
+    settled(promise) {
+      if (!installed) return;
+      let completion = completions.get(promise);
+      if (!completion) {
+        completion = {};
+        completions.set(promise, completion);
+      }
+      if (!completion.snapshot && !completion.follow) {
+        completion.snapshot = storage.snapshot();
+      }
+      completion.rejection ??= completion.snapshot;
+    },
+  });
+}
+
+function stop(): void {
+  stopHooks?.();
+  stopHooks = undefined;
+}
+
+/**
+ * The context relevant to the promise's rejection: where its reject function
+ * was called, or where the `then` that derived it was called. Promises
+ * rejected by engine internals, or created before install, have none.
+ *
+ * Look it up from Node's `unhandledRejection` and `rejectionHandled` hooks (or
+ * see rejection.ts for `PromiseRejectionEvent`-style events).
+ */
+export function rejectionSnapshot(
+  promise: Promise<unknown>
+): Snapshot | undefined {
+  const rejection = completions.get(promise)?.rejection;
+  return rejection && snapshotOf(rejection.mapping);
+}
+
+/**
+ * Install patches `Promise.prototype.then` so that every promise reaction runs
+ * in the context that was current when it was registered, and enables V8's
+ * promise hooks so that the jobs the engine runs without calling `then`
+ * (continuations after `await`, and `async` functions returning a thenable)
+ * run in the context they were created in, with ContinuationVariables
+ * continuing from the awaited promise. `catch` and `finally` are
+ * specified to invoke `this.then`, so they're covered too.
+ *
+ * Without the promise hooks (before Node 16.14), only the reactions are
+ * covered: an `await` continues in whatever context runs the job, and a
+ * promise settled by its resolving functions records no completion for
+ * ContinuationVariables.
+ *
+ * The Promise constructor itself is untouched, so promise identity (as in
+ * `Promise.resolve(p) === p`) is preserved. Calling install more than once
+ * has no further effect.
+ */
+export function install(): void {
+  if (installed) return;
+  installed = true;
+
+  Promise.prototype.then = then;
+  startHooks();
+}
+
+/**
+ * Uninstall restores the native `then` method and disables the promise hooks
+ * (once any job in progress has finished). Reactions registered while the
+ * patch was installed keep their context.
+ */
+export function uninstall(): void {
+  if (!installed) return;
+  installed = false;
+
+  Promise.prototype.then = nativeThen;
+  if (!jobs.length) stop();
+}
 
-  return nativeThen.call(this, ful, rej) as Promise<T>;
+export function isInstalled(): boolean {
+  return installed;
 }
@@ -0,0 +1,108 @@
+import { Snapshot } from "./snapshot";
+import { Variable } from "./variable";
+
+/**
+ * Signal-based frameworks track the "owner" that collects nested computations
+ * and their cleanups, and lose it across `await` because it's kept on a global
+ * mutable stack (see the Solid section of FRAMEWORKS.md). Keeping it in a
+ * Variable instead, the owner flows into promise reactions and wrapped
+ * callbacks like any other context.
+ */
+export class Owner {
+  readonly owner: Owner | null;
+  #children = new Set<Owner>();
+  #cleanups: Array<() => void> = [];
+  #disposed = false;
+
+  constructor(owner: Owner | null) {
+    this.owner = owner;
+    if (owner) owner.#children.add(this);
+  }
+
+  get disposed(): boolean {
+    return this.#disposed;
+  }
+
+  /**
+   * Registers a cleanup to run when this owner is disposed. If it already
+   * was (because the code registering it resumed after an `await` that
+   * outlived the owner), the cleanup runs immediately.
+   */
+  addCleanup(fn: () => void): void {
+    if (this.#disposed) {
+      fn();
+    } else {
+      this.#cleanups.push(Snapshot.wrap(fn));
+    }
+  }
+
+  /**
+   * Disposes the owned roots (most recent first), then runs this owner's
+   * cleanups in the reverse order of registering them. Each cleanup runs in
+   * the context it was registered in. Every cleanup runs even if an earlier
+   * one throws, and the first error is rethrown afterwards.
+   */
+  dispose(): void {
+    if (this.#disposed) return;
+    this.#disposed = true;
+    if (this.owner) this.owner.#children.delete(this);
+
+    const errors: unknown[] = [];
+    const attempt = (fn: () => void) => {
+      try {
+        fn();
+      } catch (e) {
+        errors.push(e);
+      }
+    };
+
+    for (const child of [...this.#children].reverse()) {
+      attempt(() => child.dispose());
+    }
+    const cleanups = this.#cleanups.splice(0).reverse();
+    for (const cleanup of cleanups) {
+      attempt(cleanup);
+    }
+    if (errors.length) throw errors[0];
+  }
+}
+
+const current = new Variable<Owner | null>({
+  name: "owner",
+  defaultValue: null,
+});
+
+/**
+ * Runs the function with a new owner, which it can dispose through the
+ * argument. Unlike Solid's roots, a root created under another owner is
+ * disposed along with that owner.
+ */
+export function createRoot<T>(fn: (dispose: () => void) => T): T {
+  const owner = new Owner(current.get()!);
+  return current.run(owner, fn, () => owner.dispose());
+}
+
+export function getOwner(): Owner | null {
+  return current.get()!;
+}
+
+/**
+ * Runs the function with the given owner (or none), for re-entering an owner
+ * from a callback that lost it.
+ */
+export function runWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  return current.run(owner, fn);
+}
+
+/**
+ * Registers a cleanup with the current owner. Without one, the cleanup could
+ * never run, so it's an error.
+ */
+export function onCleanup<T extends () => void>(fn: T): T {
+  const owner = current.get();
+  if (!owner) {
+    throw new ReferenceError("onCleanup called outside of any owner");
+  }
+  owner.addCleanup(fn);
+  return fn;
+}
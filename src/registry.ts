@@ -0,0 +1,45 @@
+import type { Variable } from "./variable";
+
+/**
+ * Variables by a unique name (a serialization key, or a log field), held
+ * weakly: registering a Variable never keeps it alive, and once it's been
+ * collected, its name is free to be registered again.
+ *
+ * Each domain has its own registries (see Storage), so the same name can be
+ * registered in different domains.
+ */
+export class Registry {
+  #refs = new Map<string, WeakRef<Variable<unknown>>>();
+
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  get(name: string): Variable<unknown> | undefined {
+    const ref = this.#refs.get(name);
+    if (!ref) return undefined;
+
+    const variable = ref.deref();
+    if (!variable) this.#refs.delete(name);
+    return variable;
+  }
+
+  set(name: string, variable: Variable<any>): void {
+    this.#refs.set(name, new WeakRef(variable));
+  }
+
+  /**
+   * Calls the function with every Variable that's still alive, and its name,
+   * in registration order.
+   */
+  forEach(fn: (variable: Variable<unknown>, name: string) => void): void {
+    for (const [name, ref] of this.#refs) {
+      const variable = ref.deref();
+      if (variable) {
+        fn(variable, name);
+      } else {
+        this.#refs.delete(name);
+      }
+    }
+  }
+}
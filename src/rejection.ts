@@ -0,0 +1,82 @@
+import { dispatchEvent, exposeSnapshot } from "./event-target";
+import { rejectionSnapshot } from "./promise-polyfill";
+import { Snapshot } from "./snapshot";
+
+/**
+ * Node only defines a global Event from version 15, and the class must still
+ * load without one, so that importing this module (for `reportRejections`)
+ * doesn't throw. Constructing the event is what requires it.
+ */
+function eventBase(): typeof Event {
+  if (typeof Event === "function") return Event;
+  return class {
+    constructor() {
+      throw new TypeError("AsyncPromiseRejectionEvent requires a global Event");
+    }
+  } as unknown as typeof Event;
+}
+
+export type RejectionEventType = "unhandledrejection" | "rejectionhandled";
+
+export interface RejectionEventInit extends EventInit {
+  promise: Promise<unknown>;
+  reason?: unknown;
+}
+
+/**
+ * A `PromiseRejectionEvent` whose `asyncSnapshot` is the context relevant to
+ * the rejection (see "Unhandled rejection" in CONTINUATION.md). Like other
+ * error-reporting events, it doesn't run its listeners in that context, but
+ * lets them read from it.
+ *
+ * Promises without a recorded rejection context expose the empty context.
+ */
+export class AsyncPromiseRejectionEvent extends eventBase() {
+  readonly promise: Promise<unknown>;
+  readonly reason: unknown;
+  declare readonly asyncSnapshot: Snapshot;
+
+  constructor(type: RejectionEventType, init: RejectionEventInit) {
+    super(type, init);
+    this.promise = init.promise;
+    this.reason = init.reason;
+    exposeSnapshot(this, rejectionSnapshot(init.promise) ?? Snapshot.from([]));
+  }
+}
+
+/**
+ * Bridges Node's `unhandledRejection` and `rejectionHandled` process events
+ * to `unhandledrejection` and `rejectionhandled` events on the target, as
+ * browsers dispatch them on `window`. The events are externally caused, so
+ * their listeners run in the empty context.
+ *
+ * Returns a function that removes the bridge.
+ */
+export function reportRejections(target: EventTarget): () => void {
+  // Node reports only the promise once it's handled, so remember the reason.
+  const reasons = new WeakMap<Promise<unknown>, unknown>();
+
+  const onUnhandled = (reason: unknown, promise: Promise<unknown>) => {
+    reasons.set(promise, reason);
+    const event = new AsyncPromiseRejectionEvent("unhandledrejection", {
+      promise,
+      reason,
+      cancelable: true,
+    });
+    dispatchEvent(target, event, "none");
+  };
+  const onHandled = (promise: Promise<unknown>) => {
+    const event = new AsyncPromiseRejectionEvent("rejectionhandled", {
+      promise,
+      reason: reasons.get(promise),
+    });
+    dispatchEvent(target, event, "none");
+  };
+
+  process.on("unhandledRejection", onUnhandled);
+  process.on("rejectionHandled", onHandled);
+  return () => {
+    process.off("unhandledRejection", onUnhandled);
+    process.off("rejectionHandled", onHandled);
+  };
+}
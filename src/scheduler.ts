@@ -0,0 +1,180 @@
+import { Snapshot } from "./snapshot";
+import { Variable } from "./variable";
+
+export type TaskPriority = "user-blocking" | "user-visible" | "background";
+
+export interface SchedulerPostTaskOptions {
+  priority?: TaskPriority;
+  signal?: AbortSignal;
+  delay?: number;
+}
+
+const PRIORITIES: readonly TaskPriority[] = [
+  "user-blocking",
+  "user-visible",
+  "background",
+];
+
+interface Task {
+  snapshot: Snapshot;
+  priority: TaskPriority;
+  callback: () => unknown;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * One queue per priority for `yield` continuations, and one for posted tasks.
+ * Continuations run ahead of posted tasks of the same priority, so that
+ * yielding doesn't put the yielding task at the back of the line.
+ */
+type Queues = Record<TaskPriority, { continuations: Task[]; tasks: Task[] }>;
+
+const schedule: (fn: () => void) => void =
+  typeof setImmediate === "function"
+    ? (fn) => setImmediate(fn)
+    : (fn) => setTimeout(fn, 0);
+
+/**
+ * A polyfill of the Prioritized Task Scheduling API (`scheduler.postTask` and
+ * `scheduler.yield`), following the example in MUTATION-SCOPE.md: the priority
+ * of the running task is held in a Variable, so `yield` continues at the
+ * priority its caller inherited, and nothing a library does can change it.
+ *
+ * Tasks run one per host macrotask, highest priority first, in the context
+ * `postTask` was called in.
+ */
+export class Scheduler {
+  #priority = new Variable<TaskPriority>({
+    name: "scheduler.priority",
+    defaultValue: "user-visible",
+  });
+
+  #queues = Object.fromEntries(
+    PRIORITIES.map((priority) => [priority, { continuations: [], tasks: [] }])
+  ) as unknown as Queues;
+
+  #scheduled = false;
+
+  postTask<T>(
+    callback: () => T | PromiseLike<T>,
+    options: SchedulerPostTaskOptions = {}
+  ): Promise<T> {
+    const { priority = "user-visible", signal, delay = 0 } = options;
+
+    // Like any promise-returning web API, invalid arguments reject.
+    return new Promise<T>((resolve, reject) => {
+      validate(priority);
+      if (signal?.aborted) return reject(signal.reason);
+
+      const task: Task = {
+        snapshot: new Snapshot(),
+        priority,
+        callback,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        signal,
+      };
+      if (delay > 0) {
+        const timer = setTimeout(() => this.#enqueue(task, "tasks"), delay);
+        this.#listen(task, () => clearTimeout(timer));
+      } else {
+        this.#enqueue(task, "tasks");
+        this.#listen(task);
+      }
+    });
+  }
+
+  /**
+   * Resolves from a continuation task at the current task's priority (or
+   * "user-visible" outside of any task). With the promise polyfill installed,
+   * code after an `await` of the returned promise keeps inheriting it.
+   */
+  yield(): Promise<void> {
+    const priority = this.#priority.get()!;
+    return new Promise((resolve, reject) => {
+      this.#enqueue(
+        {
+          snapshot: new Snapshot(),
+          priority,
+          callback: () => {},
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        },
+        "continuations"
+      );
+    });
+  }
+
+  #listen(task: Task, cancel?: () => void): void {
+    const { signal } = task;
+    if (!signal) return;
+
+    task.onAbort = () => {
+      cancel?.();
+      for (const queue of Object.values(this.#queues[task.priority])) {
+        const index = queue.indexOf(task);
+        if (index !== -1) queue.splice(index, 1);
+      }
+      task.reject(signal.reason);
+    };
+    signal.addEventListener("abort", task.onAbort, { once: true });
+  }
+
+  #enqueue(task: Task, kind: "continuations" | "tasks"): void {
+    this.#queues[task.priority][kind].push(task);
+    if (this.#scheduled) return;
+    this.#scheduled = true;
+    schedule(() => this.#runNext());
+  }
+
+  #runNext(): void {
+    this.#scheduled = false;
+    const task = this.#dequeue();
+    if (!task) return;
+
+    if (this.#hasQueued()) {
+      this.#scheduled = true;
+      schedule(() => this.#runNext());
+    }
+
+    if (task.onAbort) {
+      task.signal!.removeEventListener("abort", task.onAbort);
+    }
+    task.snapshot.run(() => {
+      this.#priority.run(task.priority, () => {
+        try {
+          task.resolve(task.callback());
+        } catch (e) {
+          task.reject(e);
+        }
+      });
+    });
+  }
+
+  #dequeue(): Task | undefined {
+    for (const priority of PRIORITIES) {
+      const { continuations, tasks } = this.#queues[priority];
+      if (continuations.length) return continuations.shift();
+      if (tasks.length) return tasks.shift();
+    }
+    return undefined;
+  }
+
+  #hasQueued(): boolean {
+    return PRIORITIES.some((priority) => {
+      const { continuations, tasks } = this.#queues[priority];
+      return continuations.length > 0 || tasks.length > 0;
+    });
+  }
+}
+
+function validate(priority: string): asserts priority is TaskPriority {
+  if (!PRIORITIES.includes(priority as TaskPriority)) {
+    throw new TypeError(`Invalid task priority "${priority}"`);
+  }
+}
+
+export const scheduler = new Scheduler();
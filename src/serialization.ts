@@ -0,0 +1,91 @@
+import { Mapping } from "./mapping";
+
+import type { Storage } from "./storage";
+import type { Variable } from "./variable";
+
+/**
+ * Opts a Variable into Snapshot serialization. The key is the Variable's
+ * identity across realms (and unique within its domain), so the Variable must
+ * be created with the same key (and a compatible serializer) on both sides of
+ * the boundary.
+ *
+ * `serialize` must return data that survives the structured clone algorithm
+ * (as used by `postMessage` and `v8.serialize`), and `deserialize` receives a
+ * clone of that data.
+ */
+export interface VariableSerializer<T> {
+  key: string;
+  serialize(value: T): unknown;
+  deserialize(data: unknown): T;
+}
+
+/**
+ * The structured-clone-safe form of a Snapshot: a list of the registry key and
+ * serialized value of every Variable that opted in.
+ */
+export type SerializedSnapshot = Array<[key: string, data: unknown]>;
+
+const serializers = new WeakMap<Variable<unknown>, VariableSerializer<any>>();
+
+/**
+ * Throws if the key can't be registered in the domain. Keys must be unique
+ * within a domain, else a payload couldn't say which Variable it belongs to.
+ */
+export function checkKey(storage: Storage, key: unknown): void {
+  if (typeof key !== "string") {
+    throw new TypeError("Serializer key must be a string");
+  }
+  if (storage.serializable.has(key)) {
+    throw new TypeError(`A Variable is already registered for key "${key}"`);
+  }
+}
+
+/**
+ * Registers the Variable under its serializer's key, in its domain. The key
+ * must have passed `checkKey`.
+ */
+export function register<T>(
+  storage: Storage,
+  variable: Variable<T>,
+  serializer: VariableSerializer<T>
+): void {
+  storage.serializable.set(serializer.key, variable);
+  serializers.set(variable as Variable<unknown>, serializer);
+}
+
+/**
+ * Serializes the value of every registered Variable in the Mapping. Variables
+ * that didn't opt in are dropped.
+ */
+export function serialize(mapping: Mapping): SerializedSnapshot {
+  const data: SerializedSnapshot = [];
+  mapping.forEach((variable, value) => {
+    const serializer = serializers.get(variable);
+    if (serializer) data.push([serializer.key, serializer.serialize(value)]);
+  });
+  return data;
+}
+
+/**
+ * Rehydrates a serialized Snapshot into a frozen Mapping of the domain. Keys
+ * that no Variable of the domain is registered for are dropped.
+ */
+export function deserialize(
+  storage: Storage,
+  data: SerializedSnapshot
+): Mapping {
+  if (!Array.isArray(data)) {
+    throw new TypeError("Serialized snapshot must be an array");
+  }
+
+  let mapping = new Mapping();
+  for (const [key, value] of data) {
+    const variable = storage.serializable.get(key);
+    const serializer = variable && serializers.get(variable);
+    if (serializer) {
+      mapping = mapping.set(variable, serializer.deserialize(value));
+    }
+  }
+  mapping.freeze();
+  return mapping;
+}
@@ -1,36 +1,211 @@
-import { Storage } from "./storage";
+import { hooks, publish } from "./diagnostics";
+import { FrozenRevert } from "./fork";
+import { deserialize, serialize } from "./serialization";
+import { Mapping } from "./mapping";
+import { storage, storageOf } from "./storage";
+import { Variable } from "./variable";
 
-import type { FrozenRevert } from "./fork";
+import type { SerializedSnapshot } from "./serialization";
+import type { Storage } from "./storage";
 import type { AnyFunc } from "./types";
 
+export type SnapshotEntries = Iterable<
+  readonly [variable: Variable<any>, value: unknown]
+>;
+
+/**
+ * Opaque cache keys, one per frozen Mapping. Snapshots share a Mapping when
+ * nothing was modified between their captures.
+ */
+const keys = new WeakMap<Mapping, object>();
+
+/**
+ * The Mapping the next constructed Snapshot adopts, set by `snapshotOf`.
+ */
+let adopting: FrozenRevert | undefined;
+
 export class Snapshot {
-  #snapshot = Storage.snapshot();
+  #storage: Storage;
+  #snapshot: FrozenRevert;
+
+  constructor() {
+    this.#storage = storageOf(new.target);
+    this.#snapshot = adopting ?? this.#storage.snapshot();
+    adopting = undefined;
+  }
 
   static wrap<F extends AnyFunc<any>>(fn: F): F {
-    const snapshot = Storage.snapshot();
+    return wrap(storage, fn);
+  }
+
+  run<F extends AnyFunc<null>>(fn: F, ...args: Parameters<F>) {
+    const storage = this.#storage;
+    if (hooks.length) publish("snapshot.run", storage.depth());
+    return run(storage, fn, null as any, args, this.#snapshot);
+  }
+
+  /**
+   * Exports the values of the Variables that opted in with a serializer, as
+   * structured-clone-safe data that can be posted to a worker or written to
+   * another process.
+   */
+  serialize(): SerializedSnapshot {
+    return serialize(this.#snapshot.mapping);
+  }
+
+  /**
+   * Rehydrates a serialized Snapshot, matching each value to the Variable
+   * registered under the same key in this realm.
+   */
+  static deserialize(data: SerializedSnapshot): Snapshot {
+    return deserializeIn(Snapshot, data);
+  }
+
+  /**
+   * Creates a Snapshot holding exactly the given values, independent of the
+   * current context. Every other Variable holds its default value.
+   */
+  static from(entries: SnapshotEntries): Snapshot {
+    return fromIn(Snapshot, entries);
+  }
+
+  /**
+   * Creates a Snapshot holding this snapshot's values, overridden by the given
+   * ones. This snapshot is unchanged.
+   */
+  with(entries: SnapshotEntries): Snapshot {
+    const ctor = this.constructor as typeof Snapshot;
+    const mapping = layer(this.#storage, this.#snapshot.mapping, entries);
+    return snapshotOf(mapping, ctor);
+  }
+
+  /**
+   * Whether both snapshots belong to the same domain, and hold the same value
+   * for every Variable.
+   */
+  equals(other: Snapshot): boolean {
+    if (this.#storage !== other.#storage) return false;
+    return this.#snapshot.mapping.equals(other.#snapshot.mapping);
+  }
+
+  /**
+   * An opaque object that's identical for snapshots of the same capture (and
+   * so can serve as a WeakMap or Map key). Snapshots built separately get
+   * separate keys even when they are `equals`.
+   */
+  get key(): object {
+    const { mapping } = this.#snapshot;
+    let key = keys.get(mapping);
+    if (!key) {
+      key = Object.freeze({});
+      keys.set(mapping, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * The static methods, for a Snapshot class of any domain. A domain's classes
+ * override the statics to call these, rather than relying on `this` (which is
+ * lost when a static like `wrap` is destructured).
+ */
+export function wrap<F extends AnyFunc<any>>(storage: Storage, fn: F): F {
+  const snapshot = storage.snapshot();
+  if (hooks.length) publish("snapshot.wrap", storage.depth());
 
-    function wrap(this: ThisType<F>, ...args: Parameters<F>): ReturnType<F> {
-      return run(fn, this, args, snapshot);
+  function wrap(this: ThisType<F>, ...args: Parameters<F>): ReturnType<F> {
+    return run(storage, fn, this, args, snapshot);
+  }
+
+  return wrap as unknown as F;
+}
+
+/**
+ * Like `Snapshot.wrap`, but for the host integrations: the function runs in
+ * the context of every live domain at the time it was wrapped (see
+ * `Storage#captureAll`).
+ */
+export function wrapAll<F extends AnyFunc<any>>(fn: F): F {
+  const snapshot = storage.captureAll();
+  if (hooks.length) publish("snapshot.wrap", storage.depth());
+
+  function wrap(this: ThisType<F>, ...args: Parameters<F>): ReturnType<F> {
+    const revert = storage.switchAll(snapshot);
+    try {
+      return fn.apply(this, args);
+    } finally {
+      storage.restoreAll(revert);
     }
+  }
+
+  return wrap as unknown as F;
+}
 
-    return wrap as unknown as F;
+export function fromIn(
+  ctor: typeof Snapshot,
+  entries: SnapshotEntries
+): Snapshot {
+  return snapshotOf(layer(storageOf(ctor), new Mapping(), entries), ctor);
+}
+
+export function deserializeIn(
+  ctor: typeof Snapshot,
+  data: SerializedSnapshot
+): Snapshot {
+  return snapshotOf(deserialize(storageOf(ctor), data), ctor);
+}
+
+/**
+ * Sets the entries onto a Mapping of the domain. Every Variable must belong to
+ * the same domain, because no other domain would ever read its value from
+ * this Mapping.
+ */
+function layer(
+  storage: Storage,
+  mapping: Mapping,
+  entries: SnapshotEntries
+): Mapping {
+  for (const [variable, value] of entries) {
+    if (!(variable instanceof Variable)) {
+      throw new TypeError("Snapshot entries must be keyed by a Variable");
+    }
+    if (storageOf(variable.constructor) !== storage) {
+      throw new TypeError("Snapshot entries must belong to the same domain");
+    }
+    mapping = mapping.set(variable, value);
   }
+  mapping.freeze();
+  return mapping;
+}
 
-  run<F extends AnyFunc<null>>(fn: F, ...args: Parameters<F>) {
-    return run(fn, null as any, args, this.#snapshot);
+/**
+ * Creates a Snapshot of a frozen Mapping, without any transition of the
+ * domain: the constructor adopts the Mapping instead of capturing the current
+ * data, so nothing is published or recorded as a capture.
+ */
+export function snapshotOf(
+  mapping: Mapping,
+  ctor: typeof Snapshot = Snapshot
+): Snapshot {
+  adopting = new FrozenRevert(mapping);
+  try {
+    return new ctor();
+  } finally {
+    adopting = undefined;
   }
 }
 
 function run<F extends AnyFunc<any>>(
+  storage: Storage,
   fn: F,
   context: ThisType<F>,
   args: any[],
   snapshot: FrozenRevert
 ): ReturnType<F> {
-  const revert = Storage.switch(snapshot);
+  const revert = storage.switch(snapshot);
   try {
     return fn.apply(context, args);
   } finally {
-    Storage.restore(revert);
+    storage.restore(revert);
   }
 }
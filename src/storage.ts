@@ -1,36 +1,153 @@
+import { hooks, publish } from "./diagnostics";
+import { captured, lineage, restored, switched } from "./lineage";
 import { Mapping } from "./mapping";
-import { FrozenRevert, Revert } from "./fork";
+import { FrozenRevert, Revert, RevertAll } from "./fork";
+import { Registry } from "./registry";
 
 import type { Variable } from "./variable";
 
+/**
+ * A Mutation is a modification made for the remainder of a scope (rather than
+ * for the duration of a callback), which is undone either when it's exited, or
+ * when its scope ends.
+ */
+export interface Mutation {
+  revert: FrozenRevert | Revert<unknown>;
+  done: boolean;
+}
+
+type AnyRevert = FrozenRevert | Revert<unknown> | RevertAll;
+
+/**
+ * A snapshot (or revert) of the default domain that carries those of the
+ * other live domains along, as a flat array of each domain and its snapshot.
+ * See `captureAll`.
+ */
+class DomainsRevert extends FrozenRevert {
+  readonly domains: ReadonlyArray<Storage | FrozenRevert>;
+
+  constructor(mapping: Mapping, domains: Array<Storage | FrozenRevert>) {
+    super(mapping);
+    this.domains = domains;
+  }
+}
+
+/**
+ * A Frame tracks the Mutations entered within the scope of a transition. It's
+ * only allocated by the first `enter` within that scope, so transitions without
+ * Mutations cost nothing more than their revert.
+ */
+interface Frame {
+  revert: AnyRevert;
+  mutations: Mutation[];
+}
+
 /**
  * Storage is the (internal to the language) storage container of all
  * Variable data.
  *
+ * Each Storage is an independent context root (a domain): transitions in one
+ * never affect another. `storage` is the default domain, and every other one is
+ * created by domain.ts.
+ *
  * None of the methods here are exposed to users, they're only exposed internally.
  */
 export class Storage {
-  static #current: Mapping = new Mapping(new Map());
+  #current: Mapping = new Mapping();
+  // The reverts of every open transition (`set`, `graft` and `switch`), and the
+  // Frames of those of them that have entered Mutations.
+  #scopes: AnyRevert[] = [];
+  #frames: Frame[] = [];
+
+  /**
+   * The Variables of this domain that opted into serialization, by key. See
+   * serialization.ts.
+   */
+  readonly serializable = new Registry();
+
+  /**
+   * The loggable Variables of this domain, by name. See logger.ts.
+   */
+  readonly loggable = new Registry();
 
   /**
    * Has checks if the Variable has a value.
    */
-  static has<T>(key: Variable<T>): boolean {
+  has<T>(key: Variable<T>): boolean {
     return this.#current.has(key);
   }
 
   /**
    * Get retrieves the current value assigned to the Variable.
    */
-  static get<T>(key: Variable<T>): T | undefined {
+  get<T>(key: Variable<T>): T | undefined {
     return this.#current.get(key);
   }
 
+  /**
+   * Current returns the current Mapping, for reading several Variables at
+   * once. Unlike `snapshot`, it doesn't freeze the Mapping, so it may still be
+   * modified in place unless it's already frozen.
+   */
+  current(): Mapping {
+    return this.#current;
+  }
+
+  /**
+   * IsEmpty checks if no Variable has a value, meaning we're running in the
+   * empty context.
+   */
+  isEmpty(): boolean {
+    return this.#current.isEmpty();
+  }
+
+  /**
+   * IsEmptyAll checks if we're running in the empty context of every live
+   * domain. See `captureAll`.
+   */
+  isEmptyAll(): boolean {
+    if (!this.isEmpty()) return false;
+    if (!live.length) return true;
+    return liveDomains().every((domain) => domain.isEmpty());
+  }
+
   /**
    * Set assigns a new value to the Variable, returning a revert that can
    * undo the modification at a later time.
    */
-  static set<T>(key: Variable<T>, value: T): FrozenRevert | Revert<T> {
+  set<T>(key: Variable<T>, value: T): FrozenRevert | Revert<T> {
+    return this.#open(this.#set(key, value));
+  }
+
+  /**
+   * SetAll assigns new values to several Variables in a single transition, as
+   * if by nested `set` calls (so a later entry for the same Variable wins). A
+   * frozen Mapping is forked once for all of them, and an unfrozen one is
+   * modified in place. Either way, a single revert undoes them all.
+   */
+  setAll(
+    entries: ReadonlyArray<readonly [Variable<any>, unknown]>
+  ): FrozenRevert | RevertAll {
+    const current = this.#current;
+    if (current.isFrozen()) {
+      let mapping = current;
+      for (let i = 0; i < entries.length; i++) {
+        mapping = mapping.set(entries[i][0], entries[i][1]);
+      }
+      this.#current = mapping;
+      return this.#open(new FrozenRevert(current));
+    }
+
+    // An unfrozen Mapping is modified in place, so it remains the current one.
+    // (Indexed loops, because destructuring each entry allocates.)
+    const revert = new RevertAll(current, entries);
+    for (let i = 0; i < entries.length; i++) {
+      current.set(entries[i][0], entries[i][1]);
+    }
+    return this.#open(revert);
+  }
+
+  #set<T>(key: Variable<T>, value: T): FrozenRevert | Revert<T> {
     // If the Mappings are frozen (someone has snapshot it), then modifying the
     // mappings will return a clone containing the modification.
     const current = this.#current;
@@ -44,27 +161,148 @@ export class Storage {
   /**
    * Restore will, well, restore the global storage state to state at the time
    * the revert was created.
+   *
+   * If the revert opened the innermost frame, any Mutations that were never
+   * exited are undone first (most recent first), so they can't leak out of
+   * their scope.
+   *
+   * The name is that of the Variable whose `run` is ending, so diagnostics
+   * subscribers can pair the restore with its "variable.run".
    */
-  static restore<T>(revert: FrozenRevert | Revert<T>): void {
+  restore<T>(
+    revert: FrozenRevert | Revert<T> | RevertAll,
+    name?: string
+  ): void {
+    this.#restore(revert);
+    if (hooks.length) publish("storage.restore", this.#scopes.length, name);
+    if (lineage.enabled) restored(revert);
+  }
+
+  #restore<T>(revert: FrozenRevert | Revert<T> | RevertAll): void {
+    const scopes = this.#scopes;
+    if (scopes[scopes.length - 1] === revert) {
+      scopes.pop();
+      const frames = this.#frames;
+      const frame = frames[frames.length - 1];
+      if (frame?.revert === revert) {
+        frames.pop();
+        const { mutations } = frame;
+        for (let i = mutations.length - 1; i >= 0; i--) {
+          const mutation = mutations[i];
+          mutation.done = true;
+          this.#current = mutation.revert.restore(this.#current);
+        }
+      }
+    }
     this.#current = revert.restore(this.#current);
   }
 
+  /**
+   * Depth is the number of open transitions, i.e. how deeply nested the current
+   * `run` callbacks (and switched snapshots) are.
+   */
+  depth(): number {
+    return this.#scopes.length;
+  }
+
+  /**
+   * Enter assigns a new value to the Variable for the remainder of the
+   * innermost frame, returning a Mutation that can be exited to undo it
+   * earlier.
+   */
+  enter<T>(key: Variable<T>, value: T): Mutation {
+    const scope = this.#scopes[this.#scopes.length - 1];
+    if (!scope) {
+      throw new ReferenceError("Not in a mutable context scope");
+    }
+    const frames = this.#frames;
+    let frame = frames[frames.length - 1];
+    if (frame?.revert !== scope) {
+      frame = { revert: scope, mutations: [] };
+      frames.push(frame);
+    }
+    const mutation = { revert: this.#set(key, value), done: false };
+    frame.mutations.push(mutation);
+    return mutation;
+  }
+
+  /**
+   * Exit undoes a Mutation. Mutations must be exited in the reverse order of
+   * being entered, and only within the frame they were entered in. Exiting a
+   * Mutation that's already been undone does nothing.
+   */
+  exit(mutation: Mutation): void {
+    if (mutation.done) return;
+
+    const frame = this.#frames[this.#frames.length - 1];
+    const mutations =
+      frame?.revert === this.#scopes[this.#scopes.length - 1]
+        ? frame.mutations
+        : undefined;
+    if (mutations?.[mutations.length - 1] !== mutation) {
+      throw new Error("Mutations must be exited in reverse order of entering");
+    }
+    mutations.pop();
+    mutation.done = true;
+    this.#current = mutation.revert.restore(this.#current);
+  }
+
   /**
    * Snapshot freezes the current storage state, and returns a new revert which
    * can restore the global storage state to the state at the time of the
    * snapshot.
    */
-  static snapshot(): FrozenRevert {
+  snapshot(): FrozenRevert {
+    const snapshot = this.#freeze();
+    if (lineage.enabled) captured(snapshot);
+    return snapshot;
+  }
+
+  #freeze(): FrozenRevert {
     this.#current.freeze();
     return new FrozenRevert(this.#current);
   }
 
+  /**
+   * Graft replaces the values of the Variables matched by the predicate with
+   * their values at the time of a snapshot, leaving all other Variables as they
+   * are. It returns a revert that `ungraft` can undo the modification with at
+   * a later time.
+   *
+   * Grafting is an internal detail of a transition (a promise reaction
+   * restoring its ContinuationVariables), so neither is published.
+   */
+  graft(
+    snapshot: FrozenRevert,
+    predicate: (key: Variable<unknown>) => boolean
+  ): FrozenRevert {
+    // Freeze the current state first, so that grafting clones it rather than
+    // modifying a Mapping that we need to restore.
+    const revert = this.#freeze();
+    this.#current = this.#current.graft(
+      snapshot.restore(this.#current),
+      predicate
+    );
+    return this.#open(revert);
+  }
+
+  ungraft(revert: FrozenRevert): void {
+    this.#restore(revert);
+  }
+
   /**
    * Switch swaps the global storage state to the state at the time of a
    * snapshot, completely replacing the current state (and making it impossible
    * for the current state to be modified until the snapshot is reverted).
    */
-  static switch(snapshot: FrozenRevert): FrozenRevert {
+  switch(snapshot: FrozenRevert): FrozenRevert {
+    return this.#switched(snapshot, this.#switch(snapshot));
+  }
+
+  #switch(
+    snapshot: FrozenRevert,
+    domains?: Array<Storage | FrozenRevert>
+  ): FrozenRevert {
     const previous = this.#current;
     this.#current = snapshot.restore(previous);
 
@@ -73,6 +311,136 @@ export class Storage {
     // Storage container, and the only way to do that is to have snapshot it.
     // So it's either snapshot (and frozen), or it's not and thus cannot be
     // modified.
-    return new FrozenRevert(previous);
+    return this.#open(
+      domains
+        ? new DomainsRevert(previous, domains)
+        : new FrozenRevert(previous)
+    );
+  }
+
+  #switched(snapshot: FrozenRevert, revert: FrozenRevert): FrozenRevert {
+    if (hooks.length) publish("storage.switch", this.#scopes.length);
+    if (lineage.enabled) switched(snapshot, revert);
+    return revert;
+  }
+
+  /**
+   * CaptureAll, SwitchAll and RestoreAll are `snapshot`, `switch` and
+   * `restore` for the host integrations, which propagate every live domain
+   * (see `addDomain`) and not just the default one. They're called on the
+   * default domain, and carry the other domains along quietly: each
+   * transition is published (and recorded) once, as the default domain's.
+   *
+   * A domain that wasn't live at the time of the capture had no values then,
+   * so switching to the capture switches it to the empty context.
+   */
+  captureAll(): FrozenRevert {
+    if (!live.length) return this.snapshot();
+
+    const domains: Array<Storage | FrozenRevert> = [];
+    for (const domain of liveDomains()) {
+      domains.push(domain, domain.#freeze());
+    }
+    this.#current.freeze();
+    const snapshot = new DomainsRevert(this.#current, domains);
+    if (lineage.enabled) captured(snapshot);
+    return snapshot;
+  }
+
+  switchAll(snapshot: FrozenRevert): FrozenRevert {
+    if (!live.length) return this.switch(snapshot);
+
+    const captures =
+      snapshot instanceof DomainsRevert ? snapshot.domains : undefined;
+    const reverts: Array<Storage | FrozenRevert> = [];
+    for (const domain of liveDomains()) {
+      const i = captures ? captures.indexOf(domain) : -1;
+      const capture = i < 0 ? empty : (captures![i + 1] as FrozenRevert);
+      reverts.push(domain, domain.#switch(capture));
+    }
+    return this.#switched(snapshot, this.#switch(snapshot, reverts));
+  }
+
+  restoreAll(revert: FrozenRevert): void {
+    if (revert instanceof DomainsRevert) {
+      const { domains } = revert;
+      for (let i = domains.length - 2; i >= 0; i -= 2) {
+        (domains[i] as Storage).#restore(domains[i + 1] as FrozenRevert);
+      }
+    }
+    this.restore(revert);
+  }
+
+  #open<R extends AnyRevert>(revert: R): R {
+    this.#scopes.push(revert);
+    return revert;
+  }
+}
+
+/**
+ * The default domain, which the top-level Variable and Snapshot use. The host
+ * integrations in this package go through it to reach every other domain too
+ * (see `captureAll`).
+ */
+export const storage = new Storage();
+
+const domains = new WeakMap<Function, Storage>();
+
+/**
+ * The domains created by domain.ts, which the host integrations propagate
+ * along with the default one. They're held weakly, so that a domain that's no
+ * longer referenced can still be collected.
+ */
+const live: Array<WeakRef<Storage>> = [];
+
+/**
+ * The empty context of a domain, frozen so that it's never modified.
+ */
+const empty = (() => {
+  const mapping = new Mapping();
+  mapping.freeze();
+  return new FrozenRevert(mapping);
+})();
+
+/**
+ * Adds a domain to those the host integrations propagate.
+ */
+export function addDomain(domain: Storage): void {
+  live.push(new WeakRef(domain));
+}
+
+/**
+ * The domains that are still live, dropping those that have been collected.
+ */
+function liveDomains(): Storage[] {
+  const domains: Storage[] = [];
+  for (let i = 0; i < live.length; ) {
+    const domain = live[i].deref();
+    if (domain) {
+      domains.push(domain);
+      i++;
+    } else {
+      live.splice(i, 1);
+    }
+  }
+  return domains;
+}
+
+/**
+ * Assigns a domain to a Variable or Snapshot class, and its subclasses.
+ */
+export function bindStorage(ctor: Function, domain: Storage): void {
+  domains.set(ctor, domain);
+}
+
+/**
+ * Finds the domain of a Variable or Snapshot class, by walking up its
+ * superclasses. Classes without one belong to the default domain.
+ */
+export function storageOf(ctor: Function): Storage {
+  for (let c: Function | null = ctor; c; c = Object.getPrototypeOf(c)) {
+    const domain = domains.get(c);
+    if (domain) return domain;
   }
+  return storage;
 }
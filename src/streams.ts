@@ -0,0 +1,127 @@
+import { Readable, Transform } from "stream";
+import { wrapAll } from "./snapshot";
+
+import type { ReadableOptions, TransformOptions } from "stream";
+import type { AnyFunc } from "./types";
+
+/**
+ * Streams call their underlying source, sink, or transformer long after they
+ * were constructed, from whatever job happens to drive them (see "Stream
+ * underlying APIs" in WEB-INTEGRATION.md). The classes in this module run
+ * every one of those callbacks in the context the stream was constructed in,
+ * which is the context of the code that set up the data flow.
+ */
+
+const SOURCE_METHODS = ["start", "pull", "cancel"] as const;
+const SINK_METHODS = ["start", "write", "close", "abort"] as const;
+const TRANSFORMER_METHODS = ["start", "transform", "flush", "cancel"] as const;
+
+const READABLE_METHODS = ["_construct", "_read", "_destroy"] as const;
+const TRANSFORM_METHODS = [
+  "_construct",
+  "_transform",
+  "_flush",
+  "_destroy",
+] as const;
+
+/**
+ * Returns an underlying object whose methods are wrapped in the current
+ * context. The methods are still called with the original object as `this`,
+ * as the streams spec requires.
+ */
+function bindUnderlying<T extends object>(
+  underlying: T | undefined,
+  methods: readonly string[]
+): T | undefined {
+  if (underlying == null) return underlying;
+
+  const bound = Object.create(underlying);
+  for (const method of methods) {
+    const fn = (underlying as any)[method];
+    if (typeof fn !== "function") continue;
+    bound[method] = wrapAll(function (...args: unknown[]) {
+      return fn.apply(underlying, args);
+    });
+  }
+  return bound;
+}
+
+/**
+ * Node streams call their implementation methods on the stream itself, and
+ * they may come from a subclass or from the constructor options. Either way,
+ * an own property wrapping the method shadows it.
+ */
+function bindImplementation(stream: object, methods: readonly string[]) {
+  for (const method of methods) {
+    const fn = (stream as any)[method];
+    if (typeof fn !== "function") continue;
+    Object.defineProperty(stream, method, {
+      value: wrapAll(fn as AnyFunc<any>),
+      writable: true,
+      configurable: true,
+    });
+  }
+}
+
+/**
+ * The WHATWG stream classes are only defined where the runtime has the
+ * stream globals (Node 18 and later), and are undefined elsewhere.
+ */
+export const ContextReadableStream =
+  typeof ReadableStream === "function"
+    ? class ContextReadableStream<R = any> extends ReadableStream<R> {
+        constructor(
+          underlyingSource?: UnderlyingDefaultSource<R> | UnderlyingSource<R>,
+          strategy?: QueuingStrategy<R>
+        ) {
+          const source = bindUnderlying(underlyingSource, SOURCE_METHODS);
+          super(source as UnderlyingSource<R>, strategy);
+        }
+      }
+    : undefined;
+
+export const ContextWritableStream =
+  typeof WritableStream === "function"
+    ? class ContextWritableStream<W = any> extends WritableStream<W> {
+        constructor(
+          underlyingSink?: UnderlyingSink<W>,
+          strategy?: QueuingStrategy<W>
+        ) {
+          super(bindUnderlying(underlyingSink, SINK_METHODS), strategy);
+        }
+      }
+    : undefined;
+
+export const ContextTransformStream =
+  typeof TransformStream === "function"
+    ? class ContextTransformStream<I = any, O = any> extends TransformStream<
+        I,
+        O
+      > {
+        constructor(
+          transformer?: Transformer<I, O>,
+          writableStrategy?: QueuingStrategy<I>,
+          readableStrategy?: QueuingStrategy<O>
+        ) {
+          super(
+            bindUnderlying(transformer, TRANSFORMER_METHODS),
+            writableStrategy,
+            readableStrategy
+          );
+        }
+      }
+    : undefined;
+
+export class ContextReadable extends Readable {
+  constructor(options?: ReadableOptions) {
+    super(options);
+    bindImplementation(this, READABLE_METHODS);
+  }
+}
+
+export class ContextTransform extends Transform {
+  constructor(options?: TransformOptions) {
+    super(options);
+    bindImplementation(this, TRANSFORM_METHODS);
+  }
+}
@@ -1 +1,22 @@
 export type AnyFunc<T> = (this: T, ...args: any) => any;
+
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof (value as PromiseLike<unknown> | null | undefined)?.then ===
+    "function"
+  );
+}
+
+declare global {
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+  }
+}
+
+/**
+ * The protocol of the explicit resource management proposal, consumed by
+ * `using` declarations.
+ */
+export interface Disposable {
+  [Symbol.dispose](): void;
+}
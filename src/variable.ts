@@ -1,22 +1,63 @@
-import { Storage } from "./storage";
+import { hooks, publish } from "./diagnostics";
+import { checkLoggable, registerLoggable } from "./logger";
+import { checkKey, register } from "./serialization";
+import { storageOf } from "./storage";
 
-import type { AnyFunc } from "./types";
+import type { VariableSerializer } from "./serialization";
+import type { Storage } from "./storage";
+import type { AnyFunc, Disposable } from "./types";
+
+/**
+ * The key of the method that disposes the result of `withValue`. It's
+ * `Symbol.dispose` where the runtime defines it, and otherwise a registered
+ * stand-in, so that code on older runtimes can still dispose explicitly:
+ *
+ *   scope[dispose]();
+ */
+export const dispose: typeof Symbol.dispose =
+  Symbol.dispose ?? Symbol.for("Symbol.dispose");
 
 export interface VariableOptions<T> {
   name?: string;
   defaultValue?: T;
+
+  /**
+   * Includes the Variable's value when a Snapshot is serialized. Variables
+   * without a serializer are dropped from the payload.
+   */
+  serializer?: VariableSerializer<T>;
+
+  /**
+   * Attaches the Variable's value (under its name) to every log record
+   * written while it's set. See logger.ts.
+   */
+  loggable?: boolean;
 }
 
+export type VariableEntries = ReadonlyArray<
+  readonly [variable: Variable<any>, value: unknown]
+>;
+
 export class Variable<T> {
   #name = "";
   #defaultValue: T | undefined;
+  #storage: Storage;
 
   constructor(options?: VariableOptions<T>) {
+    const storage = (this.#storage = storageOf(new.target));
     if (options) {
       if ("name" in options) {
         this.#name = String(options.name);
       }
       this.#defaultValue = options.defaultValue;
+
+      // Check every option before registering anywhere, so a Variable that
+      // fails to construct is never left registered.
+      const { serializer, loggable } = options;
+      if (serializer) checkKey(storage, serializer.key);
+      if (loggable) checkLoggable(this);
+      if (serializer) register(storage, this, serializer);
+      if (loggable) registerLoggable(this);
     }
   }
 
@@ -29,15 +70,75 @@ export class Variable<T> {
     fn: F,
     ...args: Parameters<F>
   ): ReturnType<F> {
-    const revert = Storage.set(this, value);
+    const storage = this.#storage;
+    const revert = storage.set(this, value);
+    if (hooks.length) publish("variable.run", storage.depth(), this.#name);
     try {
       return fn.apply(null, args);
     } finally {
-      Storage.restore(revert);
+      storage.restore(revert, this.#name);
     }
   }
 
+  /**
+   * Assigns the value for the remainder of the current scope (the innermost
+   * `run` callback), rather than for the duration of a new callback:
+   *
+   *   using _ = asyncVar.withValue(value);
+   *
+   * Disposing undoes the assignment, and must happen in the reverse order of
+   * calling withValue. If it never happens, the assignment is still undone
+   * when the scope ends, so it never leaks to the scope's caller.
+   */
+  withValue(value: T): Disposable {
+    const storage = this.#storage;
+    const mutation = storage.enter(this, value);
+    return {
+      [dispose]() {
+        storage.exit(mutation);
+      },
+    };
+  }
+
   get(): T | undefined {
-    return Storage.has(this) ? Storage.get(this) : this.#defaultValue;
+    const storage = this.#storage;
+    return storage.has(this) ? storage.get(this) : this.#defaultValue;
+  }
+}
+
+/**
+ * Runs the function with every Variable bound to its value, exactly as nested
+ * `run` calls would (so a later entry for the same Variable wins), but in a
+ * single storage transition with one revert (forking the current Mapping only
+ * if it's frozen, as `run` would). It's published as a single
+ * "variable.runAll" event.
+ *
+ * All Variables must belong to the same domain.
+ */
+export function runAll<F extends AnyFunc<null>>(
+  entries: VariableEntries,
+  fn: F,
+  ...args: Parameters<F>
+): ReturnType<F> {
+  if (entries.length === 0) return fn.apply(null, args);
+
+  for (let i = 0; i < entries.length; i++) {
+    if (!(entries[i][0] instanceof Variable)) {
+      throw new TypeError("runAll entries must be keyed by a Variable");
+    }
+  }
+  const storage = storageOf(entries[0][0].constructor);
+  for (let i = 1; i < entries.length; i++) {
+    if (storageOf(entries[i][0].constructor) !== storage) {
+      throw new TypeError("Variables must belong to the same domain");
+    }
+  }
+
+  const revert = storage.setAll(entries);
+  if (hooks.length) publish("variable.runAll", storage.depth());
+  try {
+    return fn.apply(null, args);
+  } finally {
+    storage.restore(revert);
   }
 }
@@ -1,5 +1,7 @@
-import { AsyncContext } from "../src/index";
+import { AsyncContext, createDomain, dispose } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
 import { strict as assert } from "assert";
+import * as v8 from "v8";
 
 type Value = { id: number };
 
@@ -586,4 +588,406 @@ describe("sync", () => {
       secondWrap();
     });
   });
+
+  describe("withValue", () => {
+    test("assigns for the remainder of the scope", () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      ctx.run(first, () => {
+        const scope = ctx.withValue(second);
+        assert.equal(ctx.get(), second);
+        scope[dispose]();
+        assert.equal(ctx.get(), first);
+      });
+      assert.equal(ctx.get(), undefined);
+    });
+
+    test("does not modify prior snapshots", () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      ctx.run(first, () => {
+        const wrap = AsyncContext.Snapshot.wrap(() => ctx.get());
+        const scope = ctx.withValue(second);
+        assert.equal(wrap(), first);
+        assert.equal(ctx.get(), second);
+        scope[dispose]();
+      });
+    });
+
+    test("never leaks to the caller of the scope", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      a.run(first, () => {
+        AsyncContext.Snapshot.wrap(() => {
+          a.withValue(second);
+          b.withValue(second);
+          assert.equal(a.get(), second);
+          assert.equal(b.get(), second);
+        })();
+
+        b.run(first, () => {
+          a.withValue(second);
+          b.withValue(second);
+        });
+
+        assert.equal(a.get(), first);
+        assert.equal(b.get(), undefined);
+      });
+    });
+
+    _it("throws outside of a scope", () => {
+      const ctx = new AsyncContext.Variable<Value>();
+
+      assert.throws(() => ctx.withValue({ id: 1 }), ReferenceError);
+    });
+
+    test("throws when disposed out of order", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      a.run(first, () => {
+        const outer = a.withValue(second);
+        const inner = b.withValue(second);
+        assert.throws(() => outer[dispose](), Error);
+
+        b.run(first, () => {
+          assert.throws(() => inner[dispose](), Error);
+        });
+
+        inner[dispose]();
+        inner[dispose]();
+        outer[dispose]();
+        assert.equal(a.get(), first);
+        assert.equal(b.get(), undefined);
+      });
+    });
+  });
+
+  describe("runAll", () => {
+    test("binds every variable like nested runs", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      a.run(first, () => {
+        const result = AsyncContext.runAll(
+          [
+            [a, second],
+            [b, first],
+          ],
+          (x: number) => {
+            assert.equal(a.get(), second);
+            assert.equal(b.get(), first);
+            return x * 2;
+          },
+          21
+        );
+        assert.equal(result, 42);
+        assert.equal(a.get(), first);
+        assert.equal(b.get(), undefined);
+      });
+    });
+
+    test("lets a later entry for the same variable win", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      AsyncContext.runAll(
+        [
+          [a, first],
+          [a, second],
+        ],
+        () => assert.equal(a.get(), second)
+      );
+      assert.equal(a.get(), undefined);
+    });
+
+    test("restores after throwing", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+
+      assert.throws(() => {
+        AsyncContext.runAll(
+          [
+            [a, first],
+            [b, first],
+          ],
+          () => {
+            throw new Error("boom");
+          }
+        );
+      });
+      assert.equal(a.get(), undefined);
+      assert.equal(b.get(), undefined);
+    });
+
+    test("does not modify snapshots taken before or within", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      const before = AsyncContext.Snapshot.wrap(() => [a.get(), b.get()]);
+      const within = AsyncContext.runAll(
+        [
+          [a, first],
+          [b, second],
+        ],
+        () => {
+          assert.deepEqual(before(), [undefined, undefined]);
+          return AsyncContext.Snapshot.wrap(() => [a.get(), b.get()]);
+        }
+      );
+      assert.deepEqual(within(), [first, second]);
+      assert.deepEqual(before(), [undefined, undefined]);
+    });
+
+    test("opens a scope for withValue", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      AsyncContext.runAll([[a, first]], () => {
+        b.withValue(second);
+        assert.equal(b.get(), second);
+      });
+      assert.equal(a.get(), undefined);
+      assert.equal(b.get(), undefined);
+    });
+
+    test("rejects entries that are not keyed by a Variable", () => {
+      assert.throws(() => {
+        AsyncContext.runAll([[{} as any, 1]], () => {});
+      }, TypeError);
+    });
+
+    _it("rejects variables from different domains", () => {
+      const domain = createDomain();
+      const a = new AsyncContext.Variable<number>();
+      const b = new domain.Variable<number>();
+
+      assert.throws(() => {
+        AsyncContext.runAll(
+          [
+            [a, 1],
+            [b, 2],
+          ],
+          () => {}
+        );
+      }, TypeError);
+    });
+  });
+
+  describe("entries", () => {
+    test("from holds exactly the given values", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>({ defaultValue: { id: 0 } });
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      const snapshot = b.run(second, () => {
+        return AsyncContext.Snapshot.from([[a, first]]);
+      });
+
+      b.run(first, () => {
+        snapshot.run(() => {
+          assert.equal(a.get(), first);
+          assert.deepEqual(b.get(), { id: 0 });
+        });
+      });
+      assert.equal(a.get(), undefined);
+    });
+
+    test("with layers overrides onto a snapshot", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      const base = a.run(first, () => {
+        return b.run(first, () => new AsyncContext.Snapshot());
+      });
+      const layered = base.with([[b, second]]);
+
+      base.run(() => {
+        assert.equal(a.get(), first);
+        assert.equal(b.get(), first);
+      });
+      layered.run(() => {
+        assert.equal(a.get(), first);
+        assert.equal(b.get(), second);
+      });
+    });
+
+    test("rejects entries that are not keyed by a Variable", () => {
+      assert.throws(() => {
+        AsyncContext.Snapshot.from([[{} as any, 1]]);
+      }, TypeError);
+    });
+
+    test("equals compares values, key compares captures", () => {
+      const a = new AsyncContext.Variable<Value>();
+      const b = new AsyncContext.Variable<Value>();
+      const first = { id: 1 };
+      const second = { id: 2 };
+
+      const [captured, again] = a.run(first, () => [
+        new AsyncContext.Snapshot(),
+        new AsyncContext.Snapshot(),
+      ]);
+      const built = AsyncContext.Snapshot.from([[a, first]]);
+
+      assert.equal(captured.key, again.key);
+      assert.ok(captured.equals(again));
+
+      const rebuilt = AsyncContext.Snapshot.from([[a, first]]);
+      assert.ok(built.equals(rebuilt));
+      assert.notEqual(built.key, rebuilt.key);
+
+      assert.ok(!built.equals(built.with([[a, second]])));
+      assert.ok(!built.equals(built.with([[b, first]])));
+      assert.ok(built.equals(built.with([[a, first]])));
+      assert.equal(built.with([]).key, built.key);
+    });
+  });
+});
+
+// Continuations that don't call `then` (after `await`, and for promises
+// settled by their resolving functions) need V8's promise hooks, which exist
+// from Node 16.14. (A test without a function is pending: `it.skip` would
+// call the replaced `it`.)
+const hooked: typeof _it =
+  "promiseHooks" in v8 ? _it : (((title: string) => _it(title)) as any);
+
+describe("promise", () => {
+  before(install);
+  after(uninstall);
+
+  _it("restores context in chained reactions", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const first = { id: 1 };
+    const second = { id: 2 };
+
+    const seen: Array<Value | undefined> = [];
+    const p = ctx.run(first, () => {
+      return Promise.resolve()
+        .then(() => {
+          seen.push(ctx.get());
+          return ctx.run(second, () =>
+            Promise.resolve().then(() => seen.push(ctx.get()))
+          );
+        })
+        .then(() => {
+          seen.push(ctx.get());
+          throw new Error("boom");
+        })
+        .catch(() => seen.push(ctx.get()))
+        .finally(() => seen.push(ctx.get()));
+    });
+
+    assert.equal(ctx.get(), undefined);
+    await p;
+    assert.deepEqual(seen, [first, second, first, first, first]);
+  });
+
+  _it("awaited reactions observe their registration context", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const expected = { id: 1 };
+
+    const main = async () => {
+      const before = ctx.get();
+      const after = await Promise.resolve().then(() => ctx.get());
+      return [before, after];
+    };
+
+    const actual = await ctx.run(expected, main);
+    assert.deepEqual(actual, [expected, expected]);
+  });
+
+  hooked("adopts foreign thenables in the resolving context", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const first = { id: 1 };
+    const second = { id: 2 };
+    const third = { id: 3 };
+
+    const seen: Array<Value | undefined> = [];
+    const thenable = {
+      then(onFul: (value: Value | undefined) => void) {
+        seen.push(ctx.get());
+        onFul(ctx.get());
+      },
+    } as PromiseLike<Value | undefined>;
+
+    const fromExecutor = ctx.run(first, () => {
+      return new Promise((resolve) => resolve(thenable));
+    });
+    const fromResolve = ctx.run(second, () => Promise.resolve(thenable));
+    const fromReaction = ctx.run(third, () => {
+      return Promise.resolve().then(() => thenable);
+    });
+
+    assert.deepEqual(
+      await Promise.all([fromExecutor, fromResolve, fromReaction]),
+      [first, second, third]
+    );
+    assert.deepEqual(seen, [first, second, third]);
+  });
+
+  hooked("restores context after await", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const first = { id: 1 };
+    const second = { id: 2 };
+
+    const main = async (expected: Value) => {
+      const seen = [ctx.get()];
+      await null;
+      seen.push(ctx.get());
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      seen.push(ctx.get());
+      for await (const _ of [1]) seen.push(ctx.get());
+      return seen.every((value) => value === expected);
+    };
+
+    const results = await Promise.all([
+      ctx.run(first, main, first),
+      ctx.run(second, main, second),
+    ]);
+    assert.deepEqual(results, [true, true]);
+    assert.equal(ctx.get(), undefined);
+  });
+
+  _it("preserves promise identity", () => {
+    const p = Promise.resolve(1);
+    assert.equal(Promise.resolve(p), p);
+    assert.equal(p.constructor, Promise);
+  });
+
+  _it("install is idempotent and uninstall is reversible", () => {
+    const { then } = Promise.prototype;
+    const PromiseCtor = Promise;
+    install();
+    assert.equal(Promise.prototype.then, then);
+
+    uninstall();
+    assert.notEqual(Promise.prototype.then, then);
+    assert.equal(Promise, PromiseCtor);
+    assert.ok((async () => {})() instanceof Promise);
+
+    install();
+    assert.equal(Promise.prototype.then, then);
+    assert.equal(Promise, PromiseCtor);
+  });
 });
@@ -0,0 +1,143 @@
+import { AsyncLocalStorage as Adapter } from "../src/async-local-storage";
+import * as nodePolyfill from "../src/node-polyfill";
+import * as promisePolyfill from "../src/promise-polyfill";
+import { AsyncLocalStorage as Native } from "async_hooks";
+import { strict as assert } from "assert";
+
+type Value = { id: number };
+
+/**
+ * Each scenario runs against a fresh storage and records what it observes, so
+ * that the adapter's observations can be compared with the real
+ * AsyncLocalStorage's.
+ */
+type Scenario = (als: Native<Value>, Class: Statics) => Promise<unknown[]>;
+
+// The installed Node typings predate `AsyncLocalStorage.snapshot`.
+type Statics = Pick<typeof Adapter, "bind" | "snapshot">;
+
+const first = { id: 1 };
+const second = { id: 2 };
+
+function compare(name: string, scenario: Scenario) {
+  it(name, async () => {
+    const expected = await scenario(
+      new Native<Value>(),
+      Native as unknown as Statics
+    );
+    const actual = await scenario(new Adapter<Value>(), Adapter);
+    assert.deepEqual(actual, expected);
+  });
+}
+
+// The static `bind` and `snapshot` are native from Node 18.16 and 20 only, so
+// there's nothing to compare with on older runtimes.
+const compareStatics: typeof compare =
+  "snapshot" in Native ? compare : (name) => it.skip(name);
+
+function tick() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 1));
+}
+
+describe("AsyncLocalStorage adapter", () => {
+  before(() => {
+    nodePolyfill.install();
+    promisePolyfill.install();
+  });
+  after(() => {
+    promisePolyfill.uninstall();
+    nodePolyfill.uninstall();
+  });
+
+  compare("run scopes the store", async (als) => {
+    const seen: unknown[] = [als.getStore()];
+    const result = als.run(
+      first,
+      (a: number) => {
+        seen.push(als.getStore());
+        als.run(second, () => seen.push(als.getStore()));
+        seen.push(als.getStore());
+        return a * 2;
+      },
+      21
+    );
+    seen.push(als.getStore(), result);
+    return seen;
+  });
+
+  compare("propagates through timers and promises", async (als) => {
+    const seen: unknown[] = [];
+    await als.run(first, () => {
+      return Promise.all([
+        new Promise<void>((resolve) => {
+          setTimeout(() => {
+            seen.push(als.getStore());
+            resolve();
+          }, 1);
+        }),
+        Promise.resolve().then(() => seen.push(als.getStore())),
+      ]);
+    });
+    seen.push(als.getStore());
+    return seen;
+  });
+
+  compare("exit clears the store for scheduled work too", async (als) => {
+    const seen: unknown[] = [];
+    await als.run(first, () => {
+      return als.exit(() => {
+        seen.push(als.getStore());
+        return new Promise<void>((resolve) => {
+          setTimeout(() => {
+            seen.push(als.getStore());
+            resolve();
+          }, 1);
+        });
+      });
+    });
+    return seen;
+  });
+
+  compareStatics(
+    "bind and snapshot restore the capturing context",
+    async (als, Class) => {
+      const [bound, snapshot] = als.run(first, () => {
+        return [Class.bind(() => als.getStore()), Class.snapshot()];
+      });
+      return als.run(second, () => [
+        bound(),
+        snapshot(() => als.getStore()),
+        als.getStore(),
+      ]);
+    }
+  );
+
+  compare("enterWith lasts until the enclosing run ends", async (als) => {
+    const seen: unknown[] = [];
+    als.run(first, () => {
+      als.enterWith(second);
+      seen.push(als.getStore());
+      setTimeout(() => seen.push(als.getStore()), 1);
+    });
+    seen.push(als.getStore());
+    await tick();
+    return seen;
+  });
+
+  compare("disable hides the store until the next run", async (als) => {
+    const seen: unknown[] = [];
+    als.run(first, () => {
+      als.disable();
+      seen.push(als.getStore());
+      als.run(second, () => seen.push(als.getStore()));
+      seen.push(als.getStore());
+    });
+    return seen;
+  });
+
+  it("rejects enterWith outside of any run", () => {
+    const als = new Adapter<Value>();
+    assert.throws(() => als.enterWith(first), ReferenceError);
+    assert.equal(als.getStore(), undefined);
+  });
+});
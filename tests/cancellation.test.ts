@@ -0,0 +1,222 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import {
+  anySignal,
+  currentDeadline,
+  currentSignal,
+  remainingTime,
+  withCancellation,
+} from "../src/cancellation";
+import { strict as assert } from "assert";
+import { getEventListeners } from "events";
+
+/**
+ * Replaces `Date.now`, `setTimeout` and `clearTimeout` with a clock that only
+ * advances on `tick`. Mocha keeps its own references to the real timers.
+ */
+function fakeTimers() {
+  const real = { now: Date.now, setTimeout, clearTimeout };
+  let now = 1_000_000;
+  let nextId = 1;
+  let timers: Array<{ id: number; at: number; fn: () => void }> = [];
+
+  Date.now = () => now;
+  globalThis.setTimeout = ((fn: () => void, ms = 0) => {
+    const id = nextId++;
+    timers.push({ id, at: now + ms, fn });
+    return id;
+  }) as unknown as typeof setTimeout;
+  globalThis.clearTimeout = ((id: number) => {
+    timers = timers.filter((timer) => timer.id !== id);
+  }) as unknown as typeof clearTimeout;
+
+  return {
+    tick(ms: number) {
+      const until = now + ms;
+      for (;;) {
+        const due = timers
+          .filter((timer) => timer.at <= until)
+          .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+        if (!due) break;
+        timers = timers.filter((timer) => timer !== due);
+        now = due.at;
+        due.fn();
+      }
+      now = until;
+    },
+    restore() {
+      Date.now = real.now;
+      globalThis.setTimeout = real.setTimeout;
+      globalThis.clearTimeout = real.clearTimeout;
+    },
+  };
+}
+
+// Node only defines a global AbortController from version 15.
+const abortable =
+  typeof AbortController === "function" ? describe : describe.skip;
+
+abortable("cancellation", () => {
+  let clock: ReturnType<typeof fakeTimers>;
+
+  before(install);
+  after(uninstall);
+  beforeEach(() => {
+    clock = fakeTimers();
+  });
+  afterEach(() => clock.restore());
+
+  it("has no signal or deadline outside of any scope", () => {
+    assert.equal(currentSignal(), undefined);
+    assert.equal(currentDeadline(), Infinity);
+    assert.equal(remainingTime(), Infinity);
+  });
+
+  it("aborts the scope's signal at its timeout", () => {
+    withCancellation({ timeout: 100 }, () => {
+      const signal = currentSignal()!;
+      assert.equal(currentDeadline(), Date.now() + 100);
+
+      clock.tick(99);
+      assert.equal(signal.aborted, false);
+      clock.tick(1);
+      assert.equal(signal.aborted, true);
+      assert.equal((signal.reason as DOMException).name, "TimeoutError");
+    });
+    assert.equal(currentSignal(), undefined);
+  });
+
+  it("clears its timer and listeners once the scope ends", async () => {
+    const outer = new AbortController();
+    const signal = withCancellation(
+      { signal: outer.signal, timeout: 100 },
+      () => currentSignal()!
+    );
+    assert.equal(getEventListeners(outer.signal, "abort").length, 0);
+
+    let resolve!: () => void;
+    const pending = withCancellation(
+      { signal: outer.signal, timeout: 100 },
+      () => {
+        return new Promise<void>((r) => (resolve = r));
+      }
+    );
+    assert.equal(getEventListeners(outer.signal, "abort").length, 1);
+    resolve();
+    await pending;
+    assert.equal(getEventListeners(outer.signal, "abort").length, 0);
+
+    clock.tick(100);
+    outer.abort();
+    assert.equal(signal.aborted, false);
+  });
+
+  it("reports the remaining time budget", () => {
+    withCancellation({ deadline: Date.now() + 50 }, () => {
+      assert.equal(remainingTime(), 50);
+      clock.tick(20);
+      assert.equal(remainingTime(), 30);
+      clock.tick(100);
+      assert.equal(remainingTime(), 0);
+    });
+  });
+
+  it("keeps the earliest deadline of nested scopes", () => {
+    withCancellation({ timeout: 100 }, () => {
+      const outer = currentSignal()!;
+      const start = Date.now();
+
+      // A later deadline can't extend the enclosing one.
+      withCancellation({ timeout: 500 }, () => {
+        assert.equal(currentDeadline(), start + 100);
+        assert.equal(currentSignal(), outer);
+      });
+
+      withCancellation({ timeout: 10 }, () => {
+        assert.equal(currentDeadline(), start + 10);
+        clock.tick(10);
+        assert.equal(currentSignal()!.aborted, true);
+        assert.equal(outer.aborted, false);
+      });
+    });
+  });
+
+  it("cancels nested scopes with the enclosing scope", () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+
+    withCancellation({ signal: controller.signal }, () => {
+      withCancellation({ timeout: 100 }, () => {
+        controller.abort(reason);
+
+        assert.equal(currentSignal()!.aborted, true);
+        assert.equal(currentSignal()!.reason, reason);
+      });
+    });
+  });
+
+  it("composes a scope's own signal with the enclosing one", () => {
+    const outer = new AbortController();
+    const own = new AbortController();
+
+    withCancellation({ signal: outer.signal }, () => {
+      withCancellation({ signal: own.signal }, () => {
+        own.abort("own");
+
+        assert.equal(currentSignal()!.reason, "own");
+        assert.equal(outer.signal.aborted, false);
+      });
+    });
+  });
+
+  it("starts aborted if the deadline has passed", () => {
+    withCancellation({ deadline: Date.now() - 1 }, () => {
+      assert.equal(currentSignal()!.aborted, true);
+      assert.equal(remainingTime(), 0);
+    });
+  });
+
+  it("propagates the scope through async continuations", async () => {
+    const seen: number[] = [];
+
+    const done = withCancellation({ timeout: 100 }, () => {
+      return Promise.resolve().then(() => {
+        seen.push(remainingTime());
+        setTimeout(
+          AsyncContext.Snapshot.wrap(() => seen.push(remainingTime())),
+          30
+        );
+      });
+    });
+    await done;
+    clock.tick(30);
+
+    assert.deepEqual(seen, [100, 70]);
+  });
+
+  describe("anySignal", () => {
+    it("returns a lone signal as is", () => {
+      const { signal } = new AbortController();
+      assert.equal(anySignal([signal]), signal);
+    });
+
+    it("aborts with the first source's reason", () => {
+      const a = new AbortController();
+      const b = new AbortController();
+      const signal = anySignal([a.signal, b.signal]);
+
+      b.abort("b");
+      a.abort("a");
+      assert.equal(signal.reason, "b");
+    });
+
+    it("is already aborted if a source is", () => {
+      const a = new AbortController();
+      a.abort("a");
+      const signal = anySignal([new AbortController().signal, a.signal]);
+
+      assert.equal(signal.aborted, true);
+      assert.equal(signal.reason, "a");
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { AsyncContextManager } from "../src/context-manager";
+import { EventEmitter } from "events";
+import { strict as assert } from "assert";
+
+type Context = { name: string };
+
+const ROOT: Context = { name: "root" };
+
+describe("AsyncContextManager", () => {
+  let manager: AsyncContextManager<Context>;
+  beforeEach(() => {
+    manager = new AsyncContextManager(ROOT).enable();
+  });
+
+  it("is the root context outside of any with", () => {
+    assert.equal(manager.active(), ROOT);
+  });
+
+  it("nests with calls", () => {
+    const outer = { name: "outer" };
+    const inner = { name: "inner" };
+
+    const seen = manager.with(outer, () => {
+      const seen = [manager.active()];
+      manager.with(inner, () => seen.push(manager.active()));
+      seen.push(manager.active());
+      return seen;
+    });
+
+    assert.deepEqual(seen, [outer, inner, outer]);
+    assert.equal(manager.active(), ROOT);
+  });
+
+  it("passes thisArg and arguments through with", () => {
+    const self = {};
+    const result = manager.with(
+      { name: "ctx" },
+      function (this: unknown, a: number, b: number) {
+        assert.equal(this, self);
+        return a + b;
+      },
+      self,
+      1,
+      2
+    );
+    assert.equal(result, 3);
+  });
+
+  it("restores the context when with throws", () => {
+    assert.throws(() => {
+      manager.with({ name: "ctx" }, () => {
+        throw new Error("boom");
+      });
+    });
+    assert.equal(manager.active(), ROOT);
+  });
+
+  it("binds functions to a context", () => {
+    const bound = { name: "bound" };
+    const other = { name: "other" };
+
+    const fn = manager.bind(bound, () => manager.active());
+    assert.equal(fn(), bound);
+    assert.equal(
+      manager.with(other, () => fn()),
+      bound
+    );
+  });
+
+  it("binds the listeners of an EventEmitter", () => {
+    const bound = { name: "bound" };
+    const ee = manager.bind(bound, new EventEmitter());
+
+    const seen: Context[] = [];
+    const listener = () => seen.push(manager.active());
+    ee.on("event", listener);
+    ee.once("event", () => seen.push(manager.active()));
+
+    manager.with({ name: "emit" }, () => ee.emit("event"));
+    ee.emit("event");
+    assert.deepEqual(seen, [bound, bound, bound]);
+
+    ee.removeListener("event", listener);
+    assert.equal(ee.listenerCount("event"), 0);
+  });
+
+  it("is the root context while disabled", () => {
+    manager.disable();
+    manager.with({ name: "ctx" }, () => {
+      assert.equal(manager.active(), ROOT);
+    });
+
+    manager.enable();
+    const ctx = { name: "ctx" };
+    manager.with(ctx, () => assert.equal(manager.active(), ctx));
+  });
+});
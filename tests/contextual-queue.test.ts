@@ -0,0 +1,228 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import { ContextualQueue } from "../src/contextual-queue";
+import { strict as assert } from "assert";
+
+import type { Batch, MergePolicy } from "../src/contextual-queue";
+import type { Snapshot } from "../src/snapshot";
+
+describe("ContextualQueue", () => {
+  const caller = new AsyncContext.Variable<string>();
+
+  before(install);
+  after(uninstall);
+
+  function enqueueAs<T>(queue: ContextualQueue<T>, values: Record<string, T>) {
+    for (const [name, value] of Object.entries(values)) {
+      caller.run(name, () => queue.enqueue(value));
+    }
+  }
+
+  it("batches everything enqueued in the same tick", async () => {
+    const batches: number[][] = [];
+    const queue = new ContextualQueue<number>({
+      flush: (batch) => batches.push(batch.values),
+    });
+
+    enqueueAs(queue, { a: 1, b: 2, c: 3 });
+    assert.equal(queue.size, 3);
+    await Promise.resolve();
+
+    assert.deepEqual(batches, [[1, 2, 3]]);
+    assert.equal(queue.size, 0);
+  });
+
+  it("runs per-item callbacks in each item's context", () => {
+    const seen: Array<[number, string | undefined]> = [];
+    const queue = new ContextualQueue<number>({
+      schedule: () => {},
+      flush: (batch) =>
+        batch.forEach((value) => seen.push([value, caller.get()])),
+    });
+
+    enqueueAs(queue, { a: 1, b: 2 });
+    caller.run("flusher", () => queue.flush());
+
+    assert.deepEqual(seen, [
+      [1, "a"],
+      [2, "b"],
+    ]);
+  });
+
+  it("exposes the snapshots of the batch", () => {
+    let snapshots: Snapshot[] = [];
+    const queue = new ContextualQueue<number>({
+      schedule: () => {},
+      flush: (batch) => (snapshots = batch.snapshots),
+    });
+
+    enqueueAs(queue, { a: 1, b: 2 });
+    queue.flush();
+
+    assert.deepEqual(
+      snapshots.map((snapshot) => snapshot.run(() => caller.get())),
+      ["a", "b"]
+    );
+  });
+
+  describe("merge policies", () => {
+    function flushedIn(merge?: MergePolicy<number>) {
+      let context: string | undefined;
+      const queue = new ContextualQueue<number>({
+        merge,
+        schedule: () => {},
+        flush: () => (context = caller.get()),
+      });
+      enqueueAs(queue, { a: 1, b: 2 });
+      caller.run("flusher", () => queue.flush());
+      return context;
+    }
+
+    it("flushes in the first item's context by default", () => {
+      assert.equal(flushedIn(), "a");
+      assert.equal(flushedIn("first"), "a");
+    });
+
+    it("supports the last item's, the flush's and the empty context", () => {
+      assert.equal(flushedIn("last"), "b");
+      assert.equal(flushedIn("flush"), "flusher");
+      assert.equal(flushedIn("empty"), undefined);
+    });
+
+    it("supports a custom policy", () => {
+      const merge = (batch: Batch<number>) =>
+        AsyncContext.Snapshot.from([[caller, `${batch.items.length} callers`]]);
+      assert.equal(flushedIn(merge), "2 callers");
+      assert.equal(
+        flushedIn(() => undefined),
+        "flusher"
+      );
+    });
+
+    it("rejects unknown policies", () => {
+      assert.throws(
+        () =>
+          new ContextualQueue({
+            merge: "all" as MergePolicy<unknown>,
+            flush: () => {},
+          }),
+        TypeError
+      );
+    });
+  });
+
+  it("flushes when the batch reaches its maximum size", () => {
+    const batches: number[][] = [];
+    const queue = new ContextualQueue<number>({
+      maxSize: 2,
+      schedule: () => {},
+      flush: (batch) => batches.push(batch.values),
+    });
+
+    enqueueAs(queue, { a: 1, b: 2, c: 3 });
+    assert.deepEqual(batches, [[1, 2]]);
+    assert.equal(queue.size, 1);
+  });
+
+  describe("a failing flush", () => {
+    function failing(flush: () => unknown) {
+      const reported: Array<[string, number[], string | undefined]> = [];
+      const queue = new ContextualQueue<number>({
+        schedule: () => {},
+        flush,
+        onError: (error, batch) =>
+          reported.push([(error as Error).message, batch.values, caller.get()]),
+      });
+      enqueueAs(queue, { a: 1, b: 2 });
+      return { queue, reported };
+    }
+
+    it("reports a thrown error with the batch", () => {
+      const { queue, reported } = failing(() => {
+        throw new Error("thrown");
+      });
+
+      assert.doesNotThrow(() => queue.flush());
+      assert.deepEqual(reported, [["thrown", [1, 2], "a"]]);
+      assert.equal(queue.size, 0);
+    });
+
+    it("reports a rejection with the batch", async () => {
+      const { queue, reported } = failing(async () => {
+        await Promise.resolve();
+        throw new Error("rejected");
+      });
+
+      await assert.rejects(
+        caller.run("flusher", () => queue.flush() as Promise<unknown>),
+        /rejected/
+      );
+      assert.deepEqual(reported, [["rejected", [1, 2], "a"]]);
+    });
+
+    it("reports an error of the merge policy with the batch", () => {
+      const reported: Array<[string, number[]]> = [];
+      let flushes = 0;
+      const queue = new ContextualQueue<number>({
+        schedule: () => {},
+        merge: () => {
+          throw new Error("merge");
+        },
+        flush: () => flushes++,
+        onError: (error, batch) =>
+          reported.push([(error as Error).message, batch.values]),
+      });
+      enqueueAs(queue, { a: 1, b: 2 });
+
+      assert.doesNotThrow(() => queue.flush());
+      assert.deepEqual(reported, [["merge", [1, 2]]]);
+      assert.equal(flushes, 0);
+    });
+
+    it("rethrows from a microtask by default", async () => {
+      const queue = new ContextualQueue<number>({
+        schedule: () => {},
+        flush: () => {
+          throw new Error("unhandled");
+        },
+      });
+      const listeners = process.listeners("uncaughtException");
+      process.removeAllListeners("uncaughtException");
+      const uncaught = new Promise<Error>((resolve) =>
+        process.once("uncaughtException", resolve)
+      );
+
+      try {
+        queue.enqueue(1);
+        queue.flush();
+        assert.equal((await uncaught).message, "unhandled");
+      } finally {
+        listeners.forEach((listener) =>
+          process.on("uncaughtException", listener)
+        );
+      }
+    });
+  });
+
+  it("batches DataLoader-style loads", async () => {
+    type Load = { key: string; resolve: (value: string) => void };
+    const queue = new ContextualQueue<Load>({
+      flush: async (batch) => {
+        const keys = batch.values.map((load) => load.key);
+        const results = await Promise.resolve(keys.map((k) => k.toUpperCase()));
+        batch.forEach((load, i) => load.resolve(results[i]));
+      },
+    });
+    const load = (key: string) =>
+      new Promise<string>((resolve) => queue.enqueue({ key, resolve }));
+
+    const results = await Promise.all(
+      ["x", "y"].map((key) =>
+        caller.run(`caller ${key}`, () =>
+          load(key).then((value) => `${value} for ${caller.get()}`)
+        )
+      )
+    );
+    assert.deepEqual(results, ["X for caller x", "Y for caller y"]);
+  });
+});
@@ -0,0 +1,160 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as v8 from "v8";
+
+// Continuations that don't call `then` (after `await`, and for promises
+// settled by their resolving functions) need V8's promise hooks, which exist
+// from Node 16.14.
+const hooked = "promiseHooks" in v8 ? describe : describe.skip;
+
+describe("ContinuationVariable", () => {
+  before(install);
+  after(uninstall);
+
+  describe("callbacks", () => {
+    function readFile(
+      file: string,
+      callback: (err: Error | null, text?: string) => void,
+      onClose = (fn: () => void) => fn()
+    ) {
+      const snapshot = new AsyncContext.Snapshot();
+      fs.open(file, (err, fd) => {
+        if (err) return snapshot.run(callback, err);
+        const buffer = Buffer.alloc(64);
+        fs.read(fd, buffer, 0, buffer.length, 0, (err, bytesRead) => {
+          fs.close(fd, (err) => {
+            const text = buffer.toString("utf8", 0, bytesRead);
+            snapshot.run(() => onClose(() => callback(err, text)));
+          });
+        });
+      });
+    }
+
+    it("preserves the flow across a composed operation", (done) => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+
+      cf.run("main", () => {
+        readFile(__filename, () => {
+          assert.equal(cf.get(), "main");
+          done();
+        });
+      });
+    });
+
+    it("feeds back modifications of the sub-operations", (done) => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+
+      cf.run("main", () => {
+        readFile(
+          __filename,
+          () => {
+            assert.equal(cf.get(), "main -> fs.close");
+            done();
+          },
+          (fn) => cf.run(`${cf.get()} -> fs.close`, fn)
+        );
+      });
+    });
+  });
+
+  hooked("promises", () => {
+    // The examples of CONTINUATION.md, as written.
+
+    it("continuations observe the value the promise settled with", async () => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+      const v = new AsyncContext.Variable<string>();
+      const seen: Array<[string, string | undefined, string | undefined]> = [];
+      const site = (name: string) => seen.push([name, cf.get(), v.get()]);
+
+      async function main() {
+        site("main");
+        await cf.run("inner", async () => {
+          site("inner");
+          await task();
+          site("inner, after task");
+        });
+        site("main, after inner");
+      }
+
+      let taskId = 0;
+      async function task() {
+        site("task");
+        await cf.run(`task-${taskId++}`, async () => {
+          const id = cf.get()!;
+          site("task run");
+          await 1;
+          return cf.run(id, () => Promise.resolve());
+        });
+      }
+
+      await v.run("main", () => cf.run("main", main));
+
+      assert.deepEqual(seen, [
+        ["main", "main", "main"],
+        ["inner", "inner", "main"],
+        ["task", "inner", "main"],
+        ["task run", "task-0", "main"],
+        ["inner, after task", "task-0", "main"],
+        ["main, after inner", "task-0", "main"],
+      ]);
+    });
+
+    it("grafts promises from the outer scope", async () => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+      const v = new AsyncContext.Variable<string>();
+
+      const gPromise = cf.run("global", () => {
+        return v.run("global", () => Promise.resolve(1));
+      });
+
+      async function main() {
+        await gPromise;
+        return [cf.get(), v.get()];
+      }
+
+      const seen = await cf.run("main", () => v.run("main", main));
+      assert.deepEqual(seen, ["global", "main"]);
+    });
+
+    it("grafts promises from the outer scope through then", async () => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+      const v = new AsyncContext.Variable<string>();
+
+      const gPromise = cf.run("global", () => {
+        return v.run("global", () => Promise.resolve(1));
+      });
+
+      const seen = await cf.run("main", () => {
+        return v.run("main", () => gPromise.then(() => [cf.get(), v.get()]));
+      });
+
+      assert.deepEqual(seen, ["global", "main"]);
+    });
+
+    it("continues from the context the promise was rejected in", async () => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+      let reject!: (reason: unknown) => void;
+
+      const p = cf.run("init", () => {
+        return new Promise((_, rej) => (reject = rej));
+      });
+      cf.run("reject", () => reject(new Error("error message")));
+
+      const seen = await cf.run("main", () => p.catch(() => cf.get()));
+      assert.equal(seen, "reject");
+    });
+
+    it("passes through promises without a matching callback", async () => {
+      const cf = new AsyncContext.ContinuationVariable<string>();
+
+      const p = cf.run("reject", () => Promise.reject(new Error()));
+      const seen = await cf.run("main", () => {
+        return p.then(() => "unreachable").catch(() => cf.get());
+      });
+
+      assert.equal(seen, "reject");
+    });
+  });
+});
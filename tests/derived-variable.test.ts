@@ -0,0 +1,119 @@
+import { AsyncContext, createDomain } from "../src/index";
+import { DerivedVariable } from "../src/derived-variable";
+import { startLineage, stopLineage } from "../src/lineage";
+import { strict as assert } from "assert";
+
+describe("DerivedVariable", () => {
+  function setup() {
+    const request = new AsyncContext.Variable<string>();
+    const user = new AsyncContext.Variable<string>({ defaultValue: "anon" });
+    const calls: Array<[string | undefined, string | undefined]> = [];
+    const locale = new DerivedVariable({
+      name: "locale",
+      inputs: [request, user] as const,
+      compute(request, user) {
+        calls.push([request, user]);
+        return `${request}/${user}`;
+      },
+    });
+    return { request, user, locale, calls };
+  }
+
+  it("computes from its inputs on first access", () => {
+    const { request, locale, calls } = setup();
+
+    assert.equal(locale.name, "locale");
+    request.run("en", () => {
+      assert.deepEqual(calls, []);
+      assert.equal(locale.get(), "en/anon");
+      assert.equal(locale.get(), "en/anon");
+    });
+    assert.deepEqual(calls, [["en", "anon"]]);
+  });
+
+  it("recomputes when an input changes in a nested run", () => {
+    const { request, user, locale, calls } = setup();
+
+    request.run("en", () => {
+      assert.equal(locale.get(), "en/anon");
+      user.run("ada", () => {
+        assert.equal(locale.get(), "en/ada");
+      });
+      assert.equal(locale.get(), "en/anon");
+    });
+    assert.deepEqual(calls, [
+      ["en", "anon"],
+      ["en", "ada"],
+    ]);
+  });
+
+  it("keeps the value when other variables change", () => {
+    const { request, locale, calls } = setup();
+    const other = new AsyncContext.Variable<number>();
+
+    request.run("en", () => {
+      assert.equal(locale.get(), "en/anon");
+      other.run(1, () => {
+        assert.equal(locale.get(), "en/anon");
+        request.run("en", () => assert.equal(locale.get(), "en/anon"));
+      });
+    });
+    assert.deepEqual(calls, [["en", "anon"]]);
+  });
+
+  it("reuses the value cached for a restored snapshot", () => {
+    const { request, locale, calls } = setup();
+
+    const [en, fr] = ["en", "fr"].map((value) => {
+      return request.run(value, () => {
+        locale.get();
+        return new AsyncContext.Snapshot();
+      });
+    });
+    assert.equal(
+      en.run(() => locale.get()),
+      "en/anon"
+    );
+    assert.equal(
+      fr.run(() => locale.get()),
+      "fr/anon"
+    );
+    assert.deepEqual(calls, [
+      ["en", "anon"],
+      ["fr", "anon"],
+    ]);
+  });
+
+  it("reads without taking a snapshot", () => {
+    const { request, locale } = setup();
+
+    startLineage();
+    request.run("en", () => locale.get());
+    assert.deepEqual(stopLineage(), []);
+  });
+
+  it("rejects inputs from different domains", () => {
+    const domain = createDomain();
+    assert.throws(() => {
+      new DerivedVariable({
+        inputs: [new AsyncContext.Variable(), new domain.Variable()],
+        compute: () => null,
+      });
+    }, TypeError);
+  });
+
+  it("reads from its inputs' domain", () => {
+    const domain = createDomain();
+    const input = new domain.Variable<number>();
+    const double = new DerivedVariable({
+      inputs: [input] as const,
+      compute: (value) => (value ?? 0) * 2,
+    });
+
+    assert.equal(double.get(), 0);
+    assert.equal(
+      input.run(2, () => double.get()),
+      4
+    );
+  });
+});
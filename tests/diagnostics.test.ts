@@ -0,0 +1,133 @@
+import { AsyncContext } from "../src/index";
+import { subscribe, unsubscribe } from "../src/diagnostics";
+import { strict as assert } from "assert";
+
+import type { DiagnosticsEvent } from "../src/diagnostics";
+
+describe("diagnostics", () => {
+  let events: DiagnosticsEvent[];
+  const hook = (event: DiagnosticsEvent) => events.push(event);
+
+  beforeEach(() => {
+    events = [];
+    subscribe(hook);
+  });
+  afterEach(() => unsubscribe(hook));
+
+  it("publishes runs, switches and restores with their depth", () => {
+    const ctx = new AsyncContext.Variable({ name: "ctx" });
+
+    const snapshot = ctx.run(1, () => new AsyncContext.Snapshot());
+    snapshot.run(() => {
+      ctx.run(2, () => {});
+    });
+
+    assert.deepEqual(events, [
+      { type: "variable.run", name: "ctx", depth: 1 },
+      { type: "storage.restore", name: "ctx", depth: 0 },
+      { type: "snapshot.run", depth: 0 },
+      { type: "storage.switch", depth: 1 },
+      { type: "variable.run", name: "ctx", depth: 2 },
+      { type: "storage.restore", name: "ctx", depth: 1 },
+      { type: "storage.restore", depth: 0 },
+    ]);
+  });
+
+  it("publishes runAll as a single run", () => {
+    const a = new AsyncContext.Variable({ name: "a" });
+    const b = new AsyncContext.Variable({ name: "b" });
+    AsyncContext.runAll(
+      [
+        [a, 1],
+        [b, 2],
+      ],
+      () => {}
+    );
+
+    assert.deepEqual(events, [
+      { type: "variable.runAll", depth: 1 },
+      { type: "storage.restore", depth: 0 },
+    ]);
+  });
+
+  it("publishes wraps when created, and switches when called", () => {
+    const wrapped = AsyncContext.Snapshot.wrap(() => {});
+    wrapped();
+
+    assert.deepEqual(events, [
+      { type: "snapshot.wrap", depth: 0 },
+      { type: "storage.switch", depth: 1 },
+      { type: "storage.restore", depth: 0 },
+    ]);
+  });
+
+  it("stops publishing once unsubscribed", () => {
+    assert.ok(unsubscribe(hook));
+    assert.ok(!unsubscribe(hook));
+
+    new AsyncContext.Variable().run(1, () => {});
+    assert.deepEqual(events, []);
+  });
+
+  it("does not publish the hooks' own transitions", () => {
+    const ctx = new AsyncContext.Variable({ name: "ctx" });
+    const nested = () => ctx.run(0, () => {});
+    subscribe(nested);
+    try {
+      ctx.run(1, () => {});
+    } finally {
+      unsubscribe(nested);
+    }
+
+    assert.deepEqual(events, [
+      { type: "variable.run", name: "ctx", depth: 1 },
+      { type: "storage.restore", name: "ctx", depth: 0 },
+    ]);
+  });
+
+  it("does not publish internal transitions", () => {
+    const ctx = new AsyncContext.Variable({ name: "ctx" });
+    const snapshot = AsyncContext.Snapshot.from([[ctx, 1]]);
+    snapshot.with([[ctx, 2]]);
+
+    assert.deepEqual(events, []);
+  });
+
+  it("reports hook errors without interrupting the transition", async () => {
+    const ctx = new AsyncContext.Variable<number>();
+    const error = new Error("hook");
+    const throwing = () => {
+      throw error;
+    };
+
+    // Mocha fails the run on uncaught exceptions, so its listeners are set
+    // aside while the hook errors are reported.
+    const listeners = process.listeners("uncaughtException");
+    process.removeAllListeners("uncaughtException");
+    const reported: unknown[] = [];
+    const report = (e: unknown) => reported.push(e);
+    process.on("uncaughtException", report);
+
+    try {
+      subscribe(throwing);
+      try {
+        assert.equal(
+          ctx.run(1, () => ctx.get()),
+          1
+        );
+        assert.equal(ctx.get(), undefined);
+      } finally {
+        unsubscribe(throwing);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    } finally {
+      process.off("uncaughtException", report);
+      for (const listener of listeners) {
+        process.on("uncaughtException", listener);
+      }
+    }
+
+    // Once for the run, and once for the restore.
+    assert.deepEqual(reported, [error, error]);
+  });
+});
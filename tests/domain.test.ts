@@ -0,0 +1,180 @@
+import { AsyncContext, createDomain } from "../src/index";
+import { wrapGenerator } from "../src/generator";
+import * as nodePolyfill from "../src/node-polyfill";
+import * as promisePolyfill from "../src/promise-polyfill";
+import { strict as assert } from "assert";
+import * as v8 from "v8";
+
+type Value = { id: number };
+
+describe("domains", () => {
+  const first = { id: 1 };
+  const second = { id: 2 };
+
+  it("keeps each domain's context independent", () => {
+    const a = createDomain();
+    const b = createDomain();
+    const va = new a.Variable<Value>();
+    const vb = new b.Variable<Value>();
+    const root = new AsyncContext.Variable<Value>();
+
+    va.run(first, () => {
+      assert.equal(va.get(), first);
+      assert.equal(vb.get(), undefined);
+      assert.equal(root.get(), undefined);
+
+      // Switching another domain to its empty context doesn't reach this one.
+      b.Snapshot.from([]).run(() => {
+        assert.equal(va.get(), first);
+      });
+      new AsyncContext.Snapshot().run(() => {
+        assert.equal(va.get(), first);
+      });
+    });
+  });
+
+  it("runs wrapped functions across domains in their own domain only", () => {
+    const a = createDomain();
+    const b = createDomain();
+    const va = new a.Variable<Value>();
+    const vb = new b.Variable<Value>();
+
+    const wrapped = va.run(first, () => {
+      return vb.run(first, () => a.Snapshot.wrap(() => [va.get(), vb.get()]));
+    });
+
+    const seen = va.run(second, () => vb.run(second, wrapped));
+    assert.deepEqual(seen, [first, second]);
+  });
+
+  it("keeps the destructured wrap bound to its domain", () => {
+    const a = createDomain();
+    const va = new a.Variable<Value>();
+    const { wrap } = a.Snapshot;
+
+    const wrapped = va.run(first, () => wrap(() => va.get()));
+    assert.equal(wrapped(), first);
+  });
+
+  it("creates snapshots of the domain's own class", () => {
+    const a = createDomain();
+    const va = new a.Variable<Value>();
+
+    const snapshot = a.Snapshot.from([[va, first]]);
+    assert.ok(snapshot instanceof a.Snapshot);
+    assert.ok(snapshot.with([]) instanceof a.Snapshot);
+    assert.ok(va.run(first, () => new a.Snapshot()).equals(snapshot));
+    snapshot.run(() => assert.equal(va.get(), first));
+  });
+
+  it("keeps other domains' variables out of snapshots", () => {
+    const a = createDomain();
+    const b = createDomain();
+    const va = new a.Variable<Value>();
+    const vb = new b.Variable<Value>();
+
+    assert.throws(() => a.Snapshot.from([[vb, first]]), TypeError);
+    assert.throws(() => AsyncContext.Snapshot.from([[va, first]]), TypeError);
+    assert.throws(() => new a.Snapshot().with([[vb, first]]), TypeError);
+    assert.ok(!a.Snapshot.from([]).equals(b.Snapshot.from([])));
+  });
+
+  it("drops other domains' variables when deserializing", () => {
+    const a = createDomain();
+    const b = createDomain();
+    const serializer = (key: string) => ({
+      key,
+      serialize: (value: number) => value,
+      deserialize: (data: unknown) => data as number,
+    });
+    const va = new a.Variable({ serializer: serializer("test.domain.a") });
+    const vb = new b.Variable({ serializer: serializer("test.domain.b") });
+
+    const payload = va.run(1, () => new a.Snapshot().serialize());
+    const data = vb.run(2, () => [...payload, ...new b.Snapshot().serialize()]);
+
+    a.Snapshot.deserialize(data).run(() => {
+      assert.equal(va.get(), 1);
+    });
+    b.Snapshot.deserialize(data).run(() => {
+      assert.equal(vb.get(), 2);
+    });
+  });
+
+  it("registers serialization keys and loggable names per domain", () => {
+    const a = createDomain();
+    const b = createDomain();
+    const options = (key: string) => ({
+      name: key,
+      loggable: true,
+      serializer: {
+        key,
+        serialize: (value: number) => value,
+        deserialize: (data: unknown) => data as number,
+      },
+    });
+    const va = new a.Variable(options("test.domain.shared"));
+    const vb = new b.Variable(options("test.domain.shared"));
+
+    const payload = va.run(1, () => new a.Snapshot().serialize());
+    b.Snapshot.deserialize(payload).run(() => {
+      assert.equal(vb.get(), 1);
+    });
+    a.Snapshot.deserialize(payload).run(() => {
+      assert.equal(va.get(), 1);
+    });
+  });
+
+  describe("with the host integrations", () => {
+    before(() => {
+      promisePolyfill.install();
+      nodePolyfill.install();
+    });
+    after(() => {
+      nodePolyfill.uninstall();
+      promisePolyfill.uninstall();
+    });
+
+    // `await` continuations need V8's promise hooks (Node 16.14 and later).
+    const hooked = "promiseHooks" in v8 ? it : it.skip;
+
+    hooked("propagates every domain across await and timers", async () => {
+      const a = createDomain();
+      const b = createDomain();
+      const va = new a.Variable<Value>();
+      const vb = new b.Variable<Value>();
+      const root = new AsyncContext.Variable<Value>();
+
+      const seen = await va.run(first, () =>
+        vb.run(second, () =>
+          root.run(first, async () => {
+            await null;
+            const afterAwait = [va.get(), vb.get(), root.get()];
+            const inTimeout = await new Promise((resolve) => {
+              setTimeout(() => resolve([va.get(), vb.get(), root.get()]), 1);
+            });
+            return [afterAwait, inTimeout];
+          })
+        )
+      );
+
+      assert.deepEqual(seen, [
+        [first, second, first],
+        [first, second, first],
+      ]);
+      assert.equal(va.get(), undefined);
+      assert.equal(vb.get(), undefined);
+    });
+
+    it("switches domains created after a capture to their empty context", () => {
+      const generator = wrapGenerator(function* () {
+        yield va.get();
+      })();
+
+      const a = createDomain();
+      const va = new a.Variable<Value>();
+      const seen = va.run(first, () => generator.next().value);
+      assert.equal(seen, undefined);
+    });
+  });
+});
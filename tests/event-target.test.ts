@@ -0,0 +1,179 @@
+import { AsyncContext } from "../src/index";
+import {
+  ContextAbortSignal,
+  ContextEventTarget,
+  dispatchEvent,
+  endTask,
+  exposeSnapshot,
+  startTask,
+  timeout,
+} from "../src/event-target";
+import { strict as assert } from "assert";
+
+type Value = { id: number };
+
+// Node only defines a global EventTarget from version 15.
+const targets = typeof EventTarget === "function" ? describe : describe.skip;
+
+targets("EventTarget", () => {
+  const ctx = new AsyncContext.Variable<Value>();
+  const first = { id: 1 };
+  const second = { id: 2 };
+
+  function listen(target: EventTarget, type = "event") {
+    const seen: Array<Value | undefined> = [];
+    ctx.run(first, () => {
+      target.addEventListener(type, () => seen.push(ctx.get()));
+    });
+    return seen;
+  }
+
+  it("synchronous dispatches keep the dispatch context", () => {
+    const target = new EventTarget();
+    const seen = listen(target);
+
+    ctx.run(second, () => dispatchEvent(target, new Event("event")));
+    ctx.run(second, () => dispatchEvent(target, new Event("event"), "sync"));
+
+    assert.deepEqual(seen, [second, second]);
+  });
+
+  it("externally caused dispatches run in the empty context", () => {
+    const target = new EventTarget();
+    const seen = listen(target);
+
+    ctx.run(second, () => dispatchEvent(target, new Event("event"), "none"));
+
+    assert.deepEqual(seen, [undefined]);
+    assert.equal(ctx.get(), undefined);
+  });
+
+  it("task dispatches run in the context the task started in", () => {
+    const target = new EventTarget();
+    const seen = listen(target);
+
+    ctx.run(second, () => startTask(target));
+    dispatchEvent(target, new Event("event"), "task");
+    endTask(target);
+    ctx.run(second, () => dispatchEvent(target, new Event("event"), "task"));
+
+    assert.deepEqual(seen, [second, undefined]);
+  });
+
+  it("listeners cannot modify the empty context", () => {
+    const target = new EventTarget();
+    let wrapped: (() => Value | undefined) | undefined;
+    target.addEventListener("event", () => {
+      ctx.run(first, () => {
+        wrapped = AsyncContext.Snapshot.wrap(() => ctx.get());
+      });
+    });
+
+    dispatchEvent(target, new Event("event"), "none");
+    const seen = listen(target);
+    dispatchEvent(target, new Event("event"), "none");
+
+    assert.equal(wrapped!(), first);
+    assert.deepEqual(seen, [undefined]);
+  });
+
+  it("exposes the error context on the event", () => {
+    const event = ctx.run(first, () => exposeSnapshot(new Event("error")));
+
+    assert.equal(
+      event.asyncSnapshot.run(() => ctx.get()),
+      first
+    );
+  });
+
+  it("timeout signals abort in the context they were created in", async () => {
+    const signal = ctx.run(second, () => timeout(1));
+    const seen = listen(signal, "abort");
+
+    await new Promise((resolve) => signal.addEventListener("abort", resolve));
+
+    assert.deepEqual(seen, [second]);
+    assert.equal((signal.reason as DOMException).name, "TimeoutError");
+  });
+
+  describe("ContextEventTarget", () => {
+    it("runs listeners in their registration context on request", () => {
+      const target = new ContextEventTarget!();
+      const seen = listen(target);
+      const handler = { handleEvent: () => seen.push(ctx.get()) };
+      ctx.run(second, () => target.addEventListener("event", handler));
+
+      ctx.run(second, () => target.dispatchEvent(new Event("event")));
+      target.dispatchEvent(new Event("event"), "registration");
+      ctx.run(second, () => {
+        target.dispatchEvent(new Event("event"), "none");
+      });
+
+      assert.deepEqual(seen, [
+        second,
+        second,
+        first,
+        second,
+        undefined,
+        undefined,
+      ]);
+      assert.equal(ctx.get(), undefined);
+    });
+
+    it("keeps the mode of dispatches nested in a registration dispatch", () => {
+      const a = new ContextEventTarget!();
+      const b = new ContextEventTarget!();
+      const seen = listen(b);
+      a.addEventListener("event", () => {
+        ctx.run(second, () => b.dispatchEvent(new Event("event")));
+        b.dispatchEvent(new Event("event"), "registration");
+      });
+
+      a.dispatchEvent(new Event("event"), "registration");
+
+      assert.deepEqual(seen, [second, first]);
+    });
+
+    it("removes wrapped listeners", () => {
+      const target = new ContextEventTarget!();
+      const seen: string[] = [];
+      const listener = () => seen.push("bubble");
+      const capture = () => seen.push("capture");
+
+      target.addEventListener("event", listener);
+      target.addEventListener("event", listener);
+      target.addEventListener("event", capture, { capture: true });
+      target.addEventListener("event", () => seen.push("once"), {
+        once: true,
+      });
+      target.dispatchEvent(new Event("event"), "registration");
+
+      target.removeEventListener("event", listener);
+      target.removeEventListener("event", capture, { capture: true });
+      target.dispatchEvent(new Event("event"), "registration");
+
+      assert.deepEqual(seen, ["bubble", "capture", "once"]);
+    });
+
+    it("dispatches tasks through the target's own method", () => {
+      const target = new ContextEventTarget!();
+      const seen = listen(target);
+
+      ctx.run(second, () => startTask(target));
+      target.dispatchEvent(new Event("event"), "task");
+      endTask(target);
+
+      assert.deepEqual(seen, [second]);
+    });
+  });
+
+  it("ContextAbortSignal.timeout propagates the creation context", async () => {
+    const signal = ctx.run(second, () => ContextAbortSignal.timeout(1));
+    const seen = listen(signal, "abort");
+
+    await new Promise((resolve) => signal.addEventListener("abort", resolve));
+
+    assert.deepEqual(seen, [second]);
+    assert.equal(ContextAbortSignal.abort("reason").reason, "reason");
+  });
+});
@@ -0,0 +1,103 @@
+import { AsyncContext } from "../src/index";
+import { wrapGenerator } from "../src/generator";
+import { strict as assert } from "assert";
+
+type Value = { id: number };
+
+describe("wrapGenerator", () => {
+  const first = { id: 1 };
+  const second = { id: 2 };
+
+  it("resumes generators in their creation context", () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const gen = wrapGenerator(function* () {
+      yield ctx.get();
+      yield ctx.get();
+    });
+
+    const it = ctx.run(first, () => gen());
+    const seen = ctx.run(second, () => {
+      const seen = [it.next().value];
+      seen.push(ctx.get());
+      seen.push(it.next().value);
+      return seen;
+    });
+
+    assert.deepEqual(seen, [first, second, first]);
+    assert.equal(ctx.get(), undefined);
+  });
+
+  it("resumes with throw and return in the creation context", () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const seen: Array<Value | undefined> = [];
+    const gen = wrapGenerator(function* () {
+      try {
+        yield;
+      } catch {
+        seen.push(ctx.get());
+      }
+      try {
+        yield;
+      } finally {
+        seen.push(ctx.get());
+      }
+    });
+
+    const thrown = ctx.run(first, () => gen());
+    thrown.next();
+    ctx.run(second, () => thrown.throw(new Error("resume")));
+    ctx.run(second, () => thrown.return(undefined));
+
+    assert.deepEqual(seen, [first, first]);
+  });
+
+  it("passes this and arguments to the generator function", () => {
+    const self = {};
+    const gen = wrapGenerator(function* (this: unknown, a: number) {
+      assert.equal(this, self);
+      yield a;
+    });
+
+    assert.deepEqual([...gen.call(self, 1)], [1]);
+  });
+
+  it("resumes async generators driven by for await", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const gen = wrapGenerator(async function* () {
+      for (let i = 0; i < 3; i++) {
+        yield ctx.get();
+      }
+    });
+
+    const it = ctx.run(first, () => gen());
+    const seen = await ctx.run(second, async () => {
+      const seen = [];
+      for await (const value of it) {
+        seen.push(value);
+      }
+      return seen;
+    });
+
+    assert.deepEqual(seen, [first, first, first]);
+  });
+
+  it("resumes async generators for concurrent requests", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const gen = wrapGenerator(async function* () {
+      for (let i = 0; i < 3; i++) {
+        yield ctx.get();
+      }
+    });
+
+    const it = ctx.run(first, () => gen());
+    const results = await ctx.run(second, () => {
+      return Promise.all([it.next(), it.next(), it.next(), it.next()]);
+    });
+
+    assert.deepEqual(
+      results.map((result) => result.value),
+      [first, first, first, undefined]
+    );
+    assert.ok(results[3].done);
+  });
+});
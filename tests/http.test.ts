@@ -0,0 +1,179 @@
+import { AsyncContext } from "../src/index";
+import { currentRequest, withRequestContext } from "../src/http";
+import { strict as assert } from "assert";
+import { createServer, request } from "http";
+
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type { RequestContext, RequestContextOptions } from "../src/http";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => unknown;
+
+describe("http request context", () => {
+  let server: Server;
+
+  function listen(handler: Handler, options?: RequestContextOptions) {
+    server = createServer(withRequestContext(handler, options));
+    return new Promise<void>((resolve) => server.listen(0, resolve));
+  }
+
+  afterEach((done) => {
+    server.close(() => done());
+  });
+
+  function send(
+    body = "",
+    headers: Record<string, string> = {}
+  ): Promise<{ status: number; body: string }> {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+      const req = request({ port, method: "POST", headers }, (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode!, body }));
+      });
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  it("binds a context per request", async () => {
+    const seen: RequestContext[] = [];
+    await listen((req, res) => {
+      seen.push(currentRequest()!);
+      res.end(currentRequest()!.getHeader("X-Test"));
+    });
+
+    const before = Date.now();
+    const [a, b] = await Promise.all([
+      send("", { "x-test": "a" }),
+      send("", { "x-test": "b", "x-request-id": "req-b" }),
+    ]);
+
+    assert.deepEqual([a.body, b.body], ["a", "b"]);
+    assert.equal(seen.length, 2);
+    assert.notEqual(seen[0].id, seen[1].id);
+    assert.ok(seen.some((context) => context.id === "req-b"));
+    assert.ok(seen.every((context) => context.startTime >= before));
+    assert.equal(currentRequest(), undefined);
+  });
+
+  it("keeps the context while streaming the body", async () => {
+    const seen: Array<string | undefined> = [];
+    await listen((req, res) => {
+      let body = "";
+      req.setEncoding("utf8");
+      req.on("data", (chunk) => {
+        seen.push(currentRequest()?.id);
+        body += chunk;
+      });
+      req.on("end", () => {
+        seen.push(currentRequest()?.id);
+        res.end(body);
+      });
+    });
+
+    const body = "x".repeat(256 * 1024);
+    const res = await send(body, { "x-request-id": "stream" });
+
+    assert.equal(res.body, body);
+    assert.ok(seen.length > 1);
+    assert.ok(seen.every((id) => id === "stream"));
+  });
+
+  it("keeps the context in finish callbacks", async () => {
+    let finished: Promise<string | undefined>;
+    await listen((_req, res) => {
+      finished = new Promise((resolve) => {
+        res.on("finish", () => resolve(currentRequest()?.id));
+      });
+      res.end();
+    });
+
+    await send("", { "x-request-id": "finish" });
+    assert.equal(await finished!, "finish");
+  });
+
+  it("keeps the context of events emitted within the request", async () => {
+    const variable = new AsyncContext.Variable<string>();
+    const seen: Array<[string | undefined, string | undefined]> = [];
+    await listen((req, res) => {
+      req.on("custom", () => seen.push([currentRequest()?.id, variable.get()]));
+      variable.run("inner", () => req.emit("custom"));
+      req.emit("custom");
+      res.end();
+    });
+
+    await send("", { "x-request-id": "custom" });
+    assert.deepEqual(seen, [
+      ["custom", "inner"],
+      ["custom", undefined],
+    ]);
+  });
+
+  it("reports asynchronous errors in the request context", async () => {
+    const errors: Array<[string, string | undefined]> = [];
+    const onError: RequestContextOptions["onError"] = (error, _req, res) => {
+      errors.push([(error as Error).message, currentRequest()?.id]);
+      res.statusCode = 503;
+      res.end();
+    };
+    await listen(
+      async (req) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        throw new Error(`rejected ${req.url}`);
+      },
+      { onError }
+    );
+
+    const res = await send("", { "x-request-id": "async" });
+    assert.equal(res.status, 503);
+    assert.deepEqual(errors, [["rejected /", "async"]]);
+  });
+
+  it("leaves errors thrown by listeners to the emitter", async () => {
+    const errors: unknown[] = [];
+    await listen(
+      (req, res) => {
+        req.on("custom", () => {
+          throw new Error("listener");
+        });
+        assert.throws(() => req.emit("custom"), /listener/);
+        res.end("done");
+      },
+      { onError: (error) => errors.push(error) }
+    );
+
+    const res = await send();
+    assert.equal(res.body, "done");
+    assert.deepEqual(errors, []);
+  });
+
+  it("reports errors picking the request ID", async () => {
+    const errors: unknown[] = [];
+    await listen(() => {}, {
+      requestId() {
+        throw new Error("no ID");
+      },
+      onError(error, _req, res) {
+        errors.push((error as Error).message);
+        res.statusCode = 400;
+        res.end();
+      },
+    });
+
+    const res = await send();
+    assert.equal(res.status, 400);
+    assert.deepEqual(errors, ["no ID"]);
+  });
+
+  it("fails the request with a 500 by default", async () => {
+    await listen(() => {
+      throw new Error("sync");
+    });
+
+    const res = await send();
+    assert.equal(res.status, 500);
+  });
+});
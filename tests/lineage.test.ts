@@ -0,0 +1,144 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import {
+  lineageTree,
+  recordedLineage,
+  startLineage,
+  stopLineage,
+  toChromeTrace,
+} from "../src/lineage";
+import { strict as assert } from "assert";
+
+import type { LineageNode, LineageTask } from "../src/lineage";
+
+/**
+ * The shape of the tree, as nested arrays of task types, e.g. `["capture",
+ * [["run", []]]]`.
+ */
+type Shape = [LineageTask["type"], Shape[]];
+
+function shape(node: LineageNode): Shape {
+  return [node.type, node.children.map(shape)];
+}
+
+describe("task lineage", () => {
+  afterEach(stopLineage);
+
+  it("records nothing unless started", () => {
+    AsyncContext.Snapshot.wrap(() => {})();
+    assert.deepEqual(recordedLineage(), []);
+  });
+
+  it("links runs to their captures, and captures to their runs", () => {
+    startLineage();
+
+    const outer = AsyncContext.Snapshot.wrap(() => {
+      const inner = AsyncContext.Snapshot.wrap(() => {});
+      inner();
+      inner();
+    });
+    outer();
+    const tasks = stopLineage();
+
+    assert.deepEqual(lineageTree(tasks).map(shape), [
+      [
+        "capture",
+        [
+          [
+            "run",
+            [
+              [
+                "capture",
+                [
+                  ["run", []],
+                  ["run", []],
+                ],
+              ],
+            ],
+          ],
+        ],
+      ],
+    ]);
+    assert.deepEqual(
+      tasks.map((task) => task.id),
+      tasks.map((task) => task.id).sort((a, b) => a - b)
+    );
+    for (const task of tasks) {
+      if (task.type === "run") assert.ok(task.end! >= task.start);
+    }
+  });
+
+  it("records Snapshot#run as a capture and a run", () => {
+    startLineage();
+    new AsyncContext.Snapshot().run(() => {});
+
+    assert.deepEqual(lineageTree(stopLineage()).map(shape), [
+      ["capture", [["run", []]]],
+    ]);
+  });
+
+  it("stops recording when stopped", () => {
+    startLineage();
+    const fn = AsyncContext.Snapshot.wrap(() => {});
+    assert.equal(stopLineage().length, 1);
+
+    fn();
+    assert.deepEqual(recordedLineage(), []);
+  });
+
+  describe("across promises and timers", () => {
+    before(install);
+    after(uninstall);
+
+    it("follows every propagation path", async () => {
+      startLineage();
+
+      await new Promise<void>((resolve) => {
+        Promise.resolve().then(() => {
+          setTimeout(AsyncContext.Snapshot.wrap(resolve), 1);
+        });
+      });
+      const tasks = stopLineage();
+
+      // then() captures at the top level, and its reaction runs that capture.
+      // The wrapped timer callback is captured within that reaction, and the
+      // timer runs it.
+      const byId = new Map(tasks.map((task) => [task.id, task]));
+      const ancestry = (task: LineageTask) => {
+        const types = [];
+        for (let t: LineageTask | undefined = task; t; ) {
+          types.push(t.type);
+          t = t.parentId === null ? undefined : byId.get(t.parentId);
+        }
+        return types.join(" < ");
+      };
+      assert.ok(
+        tasks.some((task) => ancestry(task) === "run < capture < run < capture")
+      );
+    });
+  });
+
+  it("converts to a Chrome trace", () => {
+    startLineage();
+    AsyncContext.Snapshot.wrap(() => {})();
+    const tasks = stopLineage();
+    const [capture, run] = tasks;
+
+    const { traceEvents } = toChromeTrace(tasks);
+    assert.deepEqual(
+      traceEvents.map((event) => [event.ph, event.name, event.id]),
+      [
+        ["i", "capture", undefined],
+        ["s", "lineage", capture.id],
+        ["X", "run", undefined],
+        ["f", "lineage", capture.id],
+      ]
+    );
+    assert.deepEqual(traceEvents[2].args, {
+      id: run.id,
+      parentId: capture.id,
+    });
+    assert.ok(traceEvents.every((event) => Number.isInteger(event.ts)));
+    assert.doesNotThrow(() => JSON.parse(JSON.stringify({ traceEvents })));
+  });
+});
@@ -0,0 +1,169 @@
+import { AsyncContext, createDomain } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import {
+  Logger,
+  jsonLines,
+  logContext,
+  patchConsole,
+  registerLoggable,
+} from "../src/logger";
+import { strict as assert } from "assert";
+
+import type { LogRecord } from "../src/logger";
+
+describe("logger", () => {
+  before(install);
+  after(uninstall);
+
+  const user = new AsyncContext.Variable<string>({
+    name: "logger.user",
+    loggable: true,
+  });
+  const secret = new AsyncContext.Variable<string>({ name: "logger.secret" });
+
+  function collect(level?: "debug") {
+    const records: LogRecord[] = [];
+    const logger = new Logger({ level, write: (r) => records.push(r) });
+    return { logger, records };
+  }
+
+  it("attaches loggable variables that are set", () => {
+    const { logger, records } = collect();
+
+    logger.info("outside");
+    user.run("alice", () => {
+      secret.run("hunter2", () => logger.warn("inside", { extra: 1 }));
+    });
+
+    assert.deepEqual(
+      records.map(({ time, ...rest }) => rest),
+      [
+        { level: "info", message: "outside" },
+        { level: "warn", message: "inside", "logger.user": "alice", extra: 1 },
+      ]
+    );
+    assert.ok(!Number.isNaN(Date.parse(records[0].time)));
+  });
+
+  it("reads the context the record is written in", async () => {
+    const { logger, records } = collect();
+
+    await user.run("bob", () => {
+      return Promise.resolve().then(() => logger.info("later"));
+    });
+    assert.equal(records[0]["logger.user"], "bob");
+  });
+
+  it("lets fields override variables, but not the record's own", () => {
+    const { logger, records } = collect();
+
+    user.run("carol", () => {
+      logger.error("message", { "logger.user": "dave", level: "debug" });
+    });
+    assert.equal(records[0]["logger.user"], "dave");
+    assert.equal(records[0].level, "error");
+  });
+
+  it("drops records below the level", () => {
+    const info = collect();
+    const debug = collect("debug");
+
+    info.logger.debug("dropped");
+    debug.logger.debug("kept");
+    assert.equal(info.records.length, 0);
+    assert.equal(debug.records.length, 1);
+  });
+
+  it("reads the variables of its own domain only", () => {
+    const domain = createDomain();
+    const tenant = new domain.Variable<string>({ name: "logger.tenant" });
+    registerLoggable(tenant);
+    const records: LogRecord[] = [];
+    const logger = new Logger({ domain, write: (r) => records.push(r) });
+
+    tenant.run("acme", () => {
+      user.run("grace", () => {
+        assert.deepEqual(logContext(domain), { "logger.tenant": "acme" });
+        assert.deepEqual(logContext(), { "logger.user": "grace" });
+        logger.info("tenant");
+      });
+    });
+    assert.equal(records[0]["logger.tenant"], "acme");
+    assert.ok(!("logger.user" in records[0]));
+  });
+
+  it("accepts the same name in different domains", () => {
+    const domain = createDomain();
+    const other = new domain.Variable<string>({
+      name: "logger.user",
+      loggable: true,
+    });
+
+    other.run("heidi", () => {
+      assert.deepEqual(logContext(domain), { "logger.user": "heidi" });
+    });
+  });
+
+  it("rejects unnamed, reserved and duplicate names", () => {
+    assert.throws(
+      () => new AsyncContext.Variable({ loggable: true }),
+      TypeError
+    );
+    assert.throws(
+      () => new AsyncContext.Variable({ name: "message", loggable: true }),
+      TypeError
+    );
+    assert.throws(
+      () => new AsyncContext.Variable({ name: "logger.user", loggable: true }),
+      TypeError
+    );
+  });
+
+  it("writes JSON lines", () => {
+    const chunks: string[] = [];
+    const logger = new Logger({
+      write: jsonLines({ write: (c) => chunks.push(c) }),
+    });
+
+    user.run("erin", () => {
+      logger.info("one", { count: 10n, error: new TypeError("bad") });
+      logger.info("two");
+    });
+
+    assert.equal(chunks.length, 2);
+    assert.ok(chunks.every((chunk) => chunk.endsWith("}\n")));
+    const record = JSON.parse(chunks[0]);
+    assert.equal(record["logger.user"], "erin");
+    assert.equal(record.count, "10");
+    assert.equal(record.error.name, "TypeError");
+    assert.equal(record.error.message, "bad");
+  });
+
+  it("patches console", () => {
+    const { logger, records } = collect();
+
+    const { log } = console;
+    const restore = patchConsole(logger);
+    try {
+      user.run("frank", () => {
+        console.log("hello %s", "world", { a: 1 });
+        console.error("failed");
+      });
+    } finally {
+      restore();
+    }
+
+    assert.equal(console.log, log);
+    assert.deepEqual(
+      records.map(({ time, ...rest }) => rest),
+      [
+        {
+          level: "info",
+          message: "hello world { a: 1 }",
+          "logger.user": "frank",
+        },
+        { level: "error", message: "failed", "logger.user": "frank" },
+      ]
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { Mapping } from "../src/mapping";
+import { Variable } from "../src/variable";
+import { strict as assert } from "assert";
+
+describe("Mapping", () => {
+  // A small deterministic PRNG, so failures are reproducible.
+  function random(seed: number) {
+    return (n: number) => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return seed % n;
+    };
+  }
+
+  function assertSame(
+    mapping: Mapping,
+    expected: Map<Variable<unknown>, unknown>,
+    keys: Variable<unknown>[]
+  ) {
+    for (const key of keys) {
+      assert.equal(mapping.has(key), expected.has(key));
+      assert.equal(mapping.get(key), expected.get(key));
+    }
+    assert.equal(mapping.isEmpty(), expected.size === 0);
+  }
+
+  for (const size of [4, 8, 9, 40, 300]) {
+    it(`matches a Map with ${size} keys across forks`, () => {
+      const rand = random(size);
+      const keys = Array.from({ length: size }, () => new Variable());
+      const frozen: Array<[Mapping, Map<Variable<unknown>, unknown>]> = [];
+
+      let mapping = new Mapping();
+      let expected = new Map<Variable<unknown>, unknown>();
+      for (let i = 0; i < size * 20; i++) {
+        const key = keys[rand(size)];
+        switch (rand(4)) {
+          case 0:
+            mapping.freeze();
+            frozen.push([mapping, new Map(expected)]);
+            break;
+          case 1:
+            mapping = mapping.delete(key);
+            expected.delete(key);
+            break;
+          default:
+            mapping = mapping.set(key, i);
+            expected.set(key, i);
+        }
+      }
+      assertSame(mapping, expected, keys);
+
+      // Modifying forks must never have changed a frozen Mapping.
+      for (const [mapping, expected] of frozen) {
+        assertSame(mapping, expected, keys);
+      }
+
+      for (const key of keys) {
+        mapping = mapping.delete(key);
+      }
+      assert.ok(mapping.isEmpty());
+    });
+  }
+
+  it("forks only when frozen", () => {
+    const keys = Array.from({ length: 20 }, () => new Variable());
+    let mapping = new Mapping();
+    for (const key of keys) {
+      assert.equal(mapping.set(key, key), mapping);
+    }
+
+    mapping.freeze();
+    const forked = mapping.set(keys[0], null);
+    assert.notEqual(forked, mapping);
+    assert.equal(forked.set(keys[1], null), forked);
+    assert.equal(mapping.get(keys[0]), keys[0]);
+    assert.equal(mapping.get(keys[1]), keys[1]);
+  });
+
+  it("supports frozen keys", () => {
+    const keys = Array.from({ length: 20 }, () => new Variable());
+    keys.forEach(Object.freeze);
+    let mapping = new Mapping();
+    keys.forEach((key, i) => (mapping = mapping.set(key, i)));
+    keys.forEach((key, i) => assert.equal(mapping.get(key), i));
+  });
+
+  it("leaves its keys untouched", () => {
+    const keys = Array.from({ length: 20 }, () => new Variable());
+    let mapping = new Mapping();
+    keys.forEach((key, i) => (mapping = mapping.set(key, i)));
+    keys.forEach((key) => assert.deepEqual(Reflect.ownKeys(key), []));
+  });
+
+  it("equals compares entries regardless of how they were built", () => {
+    const keys = Array.from({ length: 20 }, () => new Variable());
+    let forward = new Mapping();
+    let backward = new Mapping();
+    for (let i = 0; i < keys.length; i++) {
+      forward = forward.set(keys[i], i);
+      backward = backward.set(keys[keys.length - 1 - i], keys.length - 1 - i);
+    }
+    assert.ok(forward.equals(backward));
+
+    forward.freeze();
+    assert.ok(forward.equals(forward.set(keys[0], 0)));
+    assert.ok(!forward.equals(forward.set(keys[0], NaN)));
+    assert.ok(!forward.equals(forward.delete(keys[0])));
+    assert.ok(!forward.delete(keys[0]).equals(forward));
+    assert.ok(
+      new Mapping().set(keys[0], NaN).equals(new Mapping().set(keys[0], NaN))
+    );
+  });
+});
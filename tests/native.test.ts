@@ -0,0 +1,148 @@
+import { AsyncContext, createDomain } from "../src/index";
+import { install, isNative, selfCheck } from "../src/native";
+import * as promisePolyfill from "../src/promise-polyfill";
+import { strict as assert } from "assert";
+
+import type { AsyncContextAPI, SelfCheckMismatch } from "../src/native";
+
+describe("native detection", () => {
+  afterEach(() => {
+    delete (globalThis as any).AsyncContext;
+    promisePolyfill.uninstall();
+  });
+
+  it("tells native implementations from the polyfill", () => {
+    assert.ok(!isNative(AsyncContext));
+    assert.ok(isNative({ Variable: Map, Snapshot: Map } as any));
+  });
+
+  it("installs the polyfill globally when there is no global", () => {
+    assert.equal(install(), AsyncContext);
+    assert.equal((globalThis as any).AsyncContext, AsyncContext);
+    assert.ok(!Object.keys(globalThis).includes("AsyncContext"));
+    assert.ok(promisePolyfill.isInstalled());
+
+    // Installing again keeps the same global.
+    assert.equal(install(), AsyncContext);
+  });
+
+  it("returns an existing global instead of splitting context", () => {
+    const existing = createDomain();
+    (globalThis as any).AsyncContext = existing;
+
+    assert.equal(install(), existing);
+    assert.ok(!promisePolyfill.isInstalled());
+  });
+
+  // Loads fresh copies of the entry points, while requiring Node's v8 module
+  // throws (as importing it would on any other runtime).
+  function requireWithoutV8(id: string) {
+    const Module = require("module");
+    const load = Module._load;
+    const entries = /[\\/]src[\\/](global|native|promise-polyfill)\.ts$/;
+    const cached = Object.keys(require.cache).filter((key) =>
+      entries.test(key)
+    );
+    const saved = cached.map((key) => [key, require.cache[key]] as const);
+    cached.forEach((key) => delete require.cache[key]);
+    Module._load = function (request: string, ...rest: unknown[]) {
+      if (request === "v8") throw new Error("Cannot find module 'v8'");
+      return load.call(this, request, ...rest);
+    };
+    try {
+      return require(id);
+    } finally {
+      Module._load = load;
+      saved.forEach(([key, module]) => (require.cache[key] = module));
+    }
+  }
+
+  it("loads the entry point without Node's v8 module", () => {
+    const warnings: unknown[] = [];
+    const { warn } = console;
+    console.warn = (message: unknown) => warnings.push(message);
+    try {
+      assert.equal(
+        requireWithoutV8("../src/global").AsyncContext,
+        AsyncContext
+      );
+    } finally {
+      console.warn = warn;
+    }
+    assert.equal((globalThis as any).AsyncContext, AsyncContext);
+    assert.equal(warnings.length, 1);
+    assert.ok(!promisePolyfill.isInstalled());
+  });
+
+  it("returns a native global without loading Node's v8 module", () => {
+    const { Variable, Snapshot } = createDomain();
+    const native = {
+      Variable: Variable.bind(null) as typeof Variable,
+      Snapshot,
+    };
+    (globalThis as any).AsyncContext = native;
+
+    assert.equal(requireWithoutV8("../src/global").AsyncContext, native);
+  });
+
+  // A domain whose Snapshot.wrap doesn't restore the context.
+  function brokenAPI(): AsyncContextAPI {
+    const domain = createDomain();
+    return {
+      Variable: domain.Variable,
+      Snapshot: class extends domain.Snapshot {
+        static wrap<F>(fn: F): F {
+          return fn;
+        }
+      },
+    };
+  }
+
+  it("self-checks an existing native global", async () => {
+    const { Variable, Snapshot } = brokenAPI();
+    // Bound functions print as native code.
+    const native = {
+      Variable: Variable.bind(null) as typeof Variable,
+      Snapshot,
+    };
+    (globalThis as any).AsyncContext = native;
+
+    const reported = await new Promise<SelfCheckMismatch[]>((onMismatch) => {
+      assert.equal(install({ onMismatch }), native);
+    });
+    assert.deepEqual(
+      reported.map((mismatch) => mismatch.scenario),
+      ["snapshot wrap"]
+    );
+  });
+
+  it("does not self-check another copy of the polyfill", async () => {
+    (globalThis as any).AsyncContext = brokenAPI();
+    let reported = false;
+    install({ onMismatch: () => (reported = true) });
+
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.ok(!reported);
+  });
+
+  describe("selfCheck", () => {
+    it("reports nothing without a native implementation", async () => {
+      assert.deepEqual(await selfCheck(), []);
+      assert.deepEqual(await selfCheck(AsyncContext), []);
+    });
+
+    it("reports nothing against a conforming implementation", async () => {
+      assert.deepEqual(await selfCheck(createDomain()), []);
+    });
+
+    it("reports the scenarios that disagree", async () => {
+      assert.deepEqual(await selfCheck(brokenAPI()), [
+        {
+          scenario: "snapshot wrap",
+          native: { value: ["self", 3, 2] },
+          polyfill: { value: ["self", 3, 1] },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/node-polyfill";
+import { EventEmitter } from "events";
+import { connect, createServer } from "net";
+import { strict as assert } from "assert";
+
+import type { AddressInfo } from "net";
+
+type Value = { id: number };
+
+describe("node host APIs", () => {
+  before(install);
+  after(uninstall);
+
+  it("schedulers restore the context they were called in", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const expected = { id: 1 };
+
+    const seen = await ctx.run(expected, () => {
+      return Promise.all(
+        [
+          (cb: () => void) => setTimeout(cb, 1),
+          (cb: () => void) => setImmediate(cb),
+          (cb: () => void) => queueMicrotask(cb),
+          (cb: () => void) => process.nextTick(cb),
+          (cb: () => void) => {
+            const id = setInterval(() => {
+              clearInterval(id);
+              cb();
+            }, 1);
+          },
+        ].map((schedule) => {
+          return new Promise((resolve) => schedule(() => resolve(ctx.get())));
+        })
+      );
+    });
+
+    assert.deepEqual(seen, [expected, expected, expected, expected, expected]);
+  });
+
+  it("passes extra arguments to scheduled callbacks", async () => {
+    const args = await new Promise((resolve) => {
+      setTimeout((...args: unknown[]) => resolve(args), 1, "a", "b");
+    });
+    assert.deepEqual(args, ["a", "b"]);
+  });
+
+  it("synchronous emits keep the dispatch context", () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const first = { id: 1 };
+    const second = { id: 2 };
+    const ee = new EventEmitter();
+
+    const seen: Array<Value | undefined> = [];
+    ctx.run(first, () => ee.on("event", () => seen.push(ctx.get())));
+    ctx.run(second, () => ee.emit("event"));
+
+    assert.deepEqual(seen, [second]);
+  });
+
+  it("I/O-driven emits fall back to the registration context", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const expected = { id: 1 };
+    const server = createServer((socket) => socket.end("data"));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const seen = await ctx.run(expected, () => {
+        const socket = connect(port);
+        return new Promise((resolve) => {
+          socket.on("data", () => resolve(ctx.get()));
+        });
+      });
+      assert.equal(seen, expected);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("emits from the empty context fall back to the registration context", () => {
+    // The heuristic can't tell these from I/O-driven emits.
+    const ctx = new AsyncContext.Variable<Value>();
+    const expected = { id: 1 };
+    const ee = new EventEmitter();
+
+    const seen: Array<Value | undefined> = [];
+    ctx.run(expected, () => {
+      ee.on("event", () => seen.push(ctx.get()));
+      ee.once("event", () => seen.push(ctx.get()));
+    });
+    ee.emit("event");
+    ctx.run({ id: 2 }, () => {
+      AsyncContext.Snapshot.from([]).run(() => ee.emit("event"));
+    });
+
+    assert.deepEqual(seen, [expected, expected, expected]);
+  });
+
+  it("wrapped listeners can be removed by the original function", () => {
+    const ee = new EventEmitter();
+    const listener = () => {};
+
+    ee.on("a", listener);
+    ee.once("b", listener);
+    assert.deepEqual(ee.listeners("a"), [listener]);
+    assert.deepEqual(ee.listeners("b"), [listener]);
+
+    ee.off("a", listener);
+    ee.off("b", listener);
+    assert.equal(ee.listenerCount("a"), 0);
+    assert.equal(ee.listenerCount("b"), 0);
+  });
+});
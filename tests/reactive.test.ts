@@ -0,0 +1,130 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import { createRoot, getOwner, onCleanup, runWithOwner } from "../src/reactive";
+import { strict as assert } from "assert";
+
+import type { Owner } from "../src/reactive";
+
+describe("reactive owners", () => {
+  before(install);
+  after(uninstall);
+
+  it("tracks the owner of nested roots", () => {
+    assert.equal(getOwner(), null);
+
+    createRoot(() => {
+      const outer = getOwner()!;
+      assert.equal(outer.owner, null);
+
+      createRoot(() => {
+        assert.equal(getOwner()!.owner, outer);
+      });
+      assert.equal(getOwner(), outer);
+    });
+    assert.equal(getOwner(), null);
+  });
+
+  it("keeps the owner across async boundaries", async () => {
+    const seen: Array<Owner | null> = [];
+
+    const [owner, done] = createRoot(() => {
+      const done = Promise.resolve()
+        .then(() => seen.push(getOwner()))
+        .then(() => {
+          return new Promise<void>((resolve) => {
+            setTimeout(
+              AsyncContext.Snapshot.wrap(() => {
+                seen.push(getOwner());
+                resolve();
+              }),
+              1
+            );
+          });
+        });
+      return [getOwner(), done] as const;
+    });
+
+    await done;
+    assert.deepEqual(seen, [owner, owner]);
+  });
+
+  it("runs cleanups when the owner is disposed", () => {
+    const order: string[] = [];
+
+    createRoot((dispose) => {
+      onCleanup(() => order.push("outer 1"));
+      createRoot(() => {
+        onCleanup(() => order.push("inner"));
+      });
+      onCleanup(() => order.push("outer 2"));
+
+      assert.deepEqual(order, []);
+      dispose();
+      dispose();
+    });
+
+    assert.deepEqual(order, ["inner", "outer 2", "outer 1"]);
+  });
+
+  it("runs cleanups in the context they were registered in", () => {
+    const ctx = new AsyncContext.Variable<string>();
+    let seen: string | undefined;
+
+    const dispose = createRoot((dispose) => {
+      ctx.run("registered", () => onCleanup(() => (seen = ctx.get())));
+      return dispose;
+    });
+    ctx.run("disposed", dispose);
+
+    assert.equal(seen, "registered");
+  });
+
+  it("runs cleanups registered after disposal immediately", async () => {
+    let cleaned = false;
+
+    const done = createRoot((dispose) => {
+      const done = Promise.resolve().then(() => {
+        onCleanup(() => (cleaned = true));
+      });
+      dispose();
+      return done;
+    });
+
+    await done;
+    assert.ok(cleaned);
+  });
+
+  it("runs every cleanup even if one throws", () => {
+    const order: string[] = [];
+
+    const dispose = createRoot((dispose) => {
+      onCleanup(() => order.push("first"));
+      onCleanup(() => {
+        throw new Error("cleanup");
+      });
+      onCleanup(() => order.push("last"));
+      return dispose;
+    });
+
+    assert.throws(dispose, /cleanup/);
+    assert.deepEqual(order, ["last", "first"]);
+  });
+
+  it("re-enters an owner with runWithOwner", () => {
+    const order: string[] = [];
+    const [owner, dispose] = createRoot((dispose) => [getOwner(), dispose]);
+
+    runWithOwner(owner, () => {
+      assert.equal(getOwner(), owner);
+      onCleanup(() => order.push("cleanup"));
+    });
+    assert.equal(getOwner(), null);
+
+    dispose();
+    assert.deepEqual(order, ["cleanup"]);
+  });
+
+  it("rejects cleanups outside of any owner", () => {
+    assert.throws(() => onCleanup(() => {}), ReferenceError);
+  });
+});
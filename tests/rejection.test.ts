@@ -0,0 +1,128 @@
+import { AsyncContext, Snapshot } from "../src/index";
+import { install, rejectionSnapshot, uninstall } from "../src/promise-polyfill";
+import { AsyncPromiseRejectionEvent, reportRejections } from "../src/rejection";
+import { strict as assert } from "assert";
+import * as v8 from "v8";
+
+// Promises rejected by their reject functions only record a rejection context
+// through V8's promise hooks, which exist from Node 16.14 (which also has the
+// global Event and EventTarget).
+const hooked = "promiseHooks" in v8 ? describe : describe.skip;
+
+hooked("rejection context", () => {
+  before(install);
+  after(uninstall);
+
+  const valueStore = new AsyncContext.Variable<string>();
+  const read = (snapshot: Snapshot | undefined) => {
+    return snapshot?.run(() => valueStore.get());
+  };
+
+  // Swallows the rejection once the assertions are done.
+  const handle = (promise: Promise<unknown>) => promise.catch(() => {});
+
+  it("is where the reject function was called", () => {
+    let reject!: (reason: unknown) => void;
+    const p1 = valueStore.run("init", () => {
+      return new Promise((_, rej) => (reject = rej));
+    });
+    valueStore.run("reject", () => reject("error message"));
+
+    assert.equal(read(rejectionSnapshot(p1)), "reject");
+    handle(p1);
+  });
+
+  it("is where then was called for a derived pending promise", async () => {
+    let reject!: (reason: unknown) => void;
+    const p2 = valueStore.run("init", () => {
+      const p1 = new Promise((_, rej) => (reject = rej));
+      return p1.then(undefined, undefined);
+    });
+    valueStore.run("reject", () => reject("error message"));
+
+    assert.equal(read(rejectionSnapshot(p2)), "init");
+    await handle(p2);
+  });
+
+  it("is where then was called for an already rejected promise", async () => {
+    const p1 = valueStore.run("reject", () => Promise.reject("error message"));
+    const p2 = valueStore.run("init", () => p1.then(undefined, undefined));
+
+    assert.equal(read(rejectionSnapshot(p1)), "reject");
+    assert.equal(read(rejectionSnapshot(p2)), "init");
+    await handle(p2);
+  });
+
+  it("is where a promise adopted an already rejected promise", async () => {
+    const p1 = valueStore.run("resolve", () => {
+      return new Promise((resolve) => resolve(Promise.reject("error message")));
+    });
+    await handle(p1);
+
+    assert.equal(read(rejectionSnapshot(p1)), "resolve");
+  });
+
+  it("exposes the snapshot on PromiseRejectionEvent-style events", () => {
+    const promise = valueStore.run("reject", () => Promise.reject("reason"));
+    const event = new AsyncPromiseRejectionEvent("unhandledrejection", {
+      promise,
+      reason: "reason",
+    });
+
+    assert.equal(event.type, "unhandledrejection");
+    assert.equal(event.promise, promise);
+    assert.equal(event.reason, "reason");
+    assert.equal(read(event.asyncSnapshot), "reject");
+    handle(promise);
+  });
+
+  describe("reportRejections", () => {
+    // Mocha fails the run on unhandled rejections, so its listeners are set
+    // aside while these tests provoke some.
+    let listeners: Function[];
+    before(() => {
+      listeners = process.listeners("unhandledRejection");
+      process.removeAllListeners("unhandledRejection");
+    });
+    after(() => {
+      for (const listener of listeners) {
+        process.on("unhandledRejection", listener as any);
+      }
+    });
+
+    it("dispatches events from Node's process hooks", async () => {
+      const target = new EventTarget();
+      const stop = reportRejections(target);
+      try {
+        const events: Array<[string, unknown, string | undefined]> = [];
+        const handled = new Promise<void>((resolve) => {
+          target.addEventListener("unhandledrejection", (event) => {
+            const { reason, asyncSnapshot } =
+              event as AsyncPromiseRejectionEvent;
+            events.push([event.type, reason, valueStore.get()]);
+            events.push(["snapshot", reason, read(asyncSnapshot)]);
+          });
+          target.addEventListener("rejectionhandled", (event) => {
+            const { reason, asyncSnapshot } =
+              event as AsyncPromiseRejectionEvent;
+            events.push([event.type, reason, read(asyncSnapshot)]);
+            resolve();
+          });
+        });
+
+        const promise = valueStore.run("reject", () => Promise.reject("boom"));
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        handle(promise);
+        await handled;
+
+        assert.deepEqual(events, [
+          ["unhandledrejection", "boom", undefined],
+          ["snapshot", "boom", "reject"],
+          ["rejectionhandled", "boom", "reject"],
+        ]);
+      } finally {
+        stop();
+      }
+    });
+  });
+});
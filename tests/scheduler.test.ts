@@ -0,0 +1,156 @@
+import { AsyncContext } from "../src/index";
+import { install, uninstall } from "../src/promise-polyfill";
+import { Scheduler } from "../src/scheduler";
+import { strict as assert } from "assert";
+
+type Value = { id: number };
+
+describe("Scheduler", () => {
+  before(install);
+  after(uninstall);
+
+  let scheduler: Scheduler;
+  beforeEach(() => {
+    scheduler = new Scheduler();
+  });
+
+  it("runs tasks by priority, then in posting order", async () => {
+    const order: string[] = [];
+    const post = (name: string, priority: any) => {
+      return scheduler.postTask(() => order.push(name), { priority });
+    };
+
+    await Promise.all([
+      post("background", "background"),
+      post("visible 1", "user-visible"),
+      post("blocking", "user-blocking"),
+      post("visible 2", undefined),
+    ]);
+
+    assert.deepEqual(order, [
+      "blocking",
+      "visible 1",
+      "visible 2",
+      "background",
+    ]);
+  });
+
+  it("runs tasks in the context they were posted from", async () => {
+    const ctx = new AsyncContext.Variable<Value>();
+    const expected = { id: 1 };
+
+    const result = ctx.run(expected, () => {
+      return scheduler.postTask(() => ctx.get());
+    });
+    assert.equal(await result, expected);
+  });
+
+  it("settles with the callback's result", async () => {
+    assert.equal(await scheduler.postTask(() => Promise.resolve(1)), 1);
+    await assert.rejects(
+      scheduler.postTask(() => {
+        throw new Error("boom");
+      }),
+      /boom/
+    );
+    await assert.rejects(
+      scheduler.postTask(() => {}, { priority: "urgent" as any }),
+      TypeError
+    );
+  });
+
+  it("yield continues at the inherited priority", async () => {
+    const order: string[] = [];
+
+    await Promise.all([
+      scheduler.postTask(
+        () => {
+          order.push("background");
+          return scheduler
+            .yield()
+            .then(() => {
+              order.push("background continuation");
+              return scheduler.yield();
+            })
+            .then(() => order.push("background continuation 2"));
+        },
+        { priority: "background" }
+      ),
+      scheduler.postTask(
+        () => {
+          order.push("blocking");
+          return scheduler.yield().then(() => {
+            order.push("blocking continuation");
+          });
+        },
+        { priority: "user-blocking" }
+      ),
+      scheduler.postTask(() => order.push("visible")),
+    ]);
+
+    assert.deepEqual(order, [
+      "blocking",
+      "blocking continuation",
+      "visible",
+      "background",
+      "background continuation",
+      "background continuation 2",
+    ]);
+  });
+
+  it("yield continuations run ahead of tasks of the same priority", async () => {
+    const order: string[] = [];
+
+    await Promise.all([
+      scheduler.postTask(() => {
+        order.push("first");
+        return scheduler.yield().then(() => order.push("continuation"));
+      }),
+      scheduler.postTask(() => order.push("second")),
+    ]);
+
+    assert.deepEqual(order, ["first", "continuation", "second"]);
+  });
+
+  it("delays tasks", async () => {
+    const order: string[] = [];
+
+    await Promise.all([
+      scheduler.postTask(() => order.push("delayed"), {
+        priority: "user-blocking",
+        delay: 5,
+      }),
+      scheduler.postTask(() => order.push("background"), {
+        priority: "background",
+      }),
+    ]);
+
+    assert.deepEqual(order, ["background", "delayed"]);
+  });
+
+  // Node only defines a global AbortController from version 15.
+  const abortable = typeof AbortController === "function" ? it : it.skip;
+
+  abortable("aborts queued and delayed tasks", async () => {
+    const controller = new AbortController();
+    const ran: string[] = [];
+
+    const queued = scheduler.postTask(() => ran.push("queued"), {
+      signal: controller.signal,
+    });
+    const delayed = scheduler.postTask(() => ran.push("delayed"), {
+      signal: controller.signal,
+      delay: 5,
+    });
+    controller.abort(new Error("aborted"));
+
+    await assert.rejects(queued, /aborted/);
+    await assert.rejects(delayed, /aborted/);
+    await assert.rejects(
+      scheduler.postTask(() => ran.push("late"), { signal: controller.signal }),
+      /aborted/
+    );
+    await scheduler.postTask(() => {});
+    assert.deepEqual(ran, []);
+  });
+});
@@ -0,0 +1,148 @@
+import { AsyncContext, createDomain } from "../src/index";
+import { strict as assert } from "assert";
+import { deserialize, serialize } from "v8";
+import { Worker } from "worker_threads";
+import * as path from "path";
+
+type Value = { id: number };
+
+let nextKey = 0;
+function uniqueKey() {
+  return `test.serialization.${nextKey++}`;
+}
+
+function numberSerializer(key: string) {
+  return {
+    key,
+    serialize: (value: number) => value,
+    deserialize: (data: unknown) => data as number,
+  };
+}
+
+describe("Snapshot serialization", () => {
+  it("round-trips opted-in variables through structured clone", () => {
+    const key = uniqueKey();
+    const a = new AsyncContext.Variable<Value>({
+      serializer: {
+        key,
+        serialize: (value) => ({ id: value.id }),
+        deserialize: (data) => data as Value,
+      },
+    });
+
+    const payload = a.run({ id: 1 }, () => {
+      return new AsyncContext.Snapshot().serialize();
+    });
+    const cloned = deserialize(serialize(payload));
+    const snapshot = AsyncContext.Snapshot.deserialize(cloned);
+
+    assert.equal(a.get(), undefined);
+    snapshot.run(() => {
+      assert.deepEqual(a.get(), { id: 1 });
+    });
+    assert.equal(a.get(), undefined);
+  });
+
+  it("drops variables that did not opt in", () => {
+    const a = new AsyncContext.Variable<number>({
+      serializer: numberSerializer(uniqueKey()),
+    });
+    const b = new AsyncContext.Variable<object>({ defaultValue: {} });
+
+    const payload = a.run(1, () => {
+      return b.run({ unclonable: () => {} }, () => {
+        return new AsyncContext.Snapshot().serialize();
+      });
+    });
+    assert.equal(payload.length, 1);
+
+    AsyncContext.Snapshot.deserialize(payload).run(() => {
+      assert.equal(a.get(), 1);
+      assert.deepEqual(b.get(), {});
+    });
+  });
+
+  it("drops keys with no registered variable", () => {
+    const a = new AsyncContext.Variable<number>({
+      serializer: numberSerializer(uniqueKey()),
+    });
+
+    const snapshot = AsyncContext.Snapshot.deserialize([
+      ["test.serialization.unknown", 1],
+    ]);
+    snapshot.run(() => {
+      assert.equal(a.get(), undefined);
+      a.run(2, () => assert.equal(a.get(), 2));
+    });
+  });
+
+  it("rejects duplicate keys", () => {
+    const key = uniqueKey();
+    new AsyncContext.Variable({ serializer: numberSerializer(key) });
+
+    assert.throws(() => {
+      new AsyncContext.Variable({ serializer: numberSerializer(key) });
+    }, TypeError);
+  });
+
+  it("accepts the same key in different domains", () => {
+    const key = uniqueKey();
+    new AsyncContext.Variable({ serializer: numberSerializer(key) });
+
+    assert.doesNotThrow(() => {
+      new (createDomain().Variable)({ serializer: numberSerializer(key) });
+    });
+  });
+
+  it("registers nothing for a Variable that fails to construct", () => {
+    const key = uniqueKey();
+    assert.throws(() => {
+      new AsyncContext.Variable({
+        serializer: numberSerializer(key),
+        loggable: true,
+      });
+    }, TypeError);
+
+    assert.doesNotThrow(() => {
+      new AsyncContext.Variable({ serializer: numberSerializer(key) });
+    });
+  });
+
+  it("crosses a worker_threads boundary", async () => {
+    const key = uniqueKey();
+    const a = new AsyncContext.Variable<number>({
+      serializer: numberSerializer(key),
+    });
+
+    const payload = a.run(42, () => new AsyncContext.Snapshot().serialize());
+
+    // The worker is a separate realm, which registers its own Variable under
+    // the same key.
+    const worker = new Worker(
+      `
+        require("@esbuild-kit/cjs-loader");
+        const { parentPort, workerData } = require("worker_threads");
+        const { AsyncContext } = require(${JSON.stringify(
+          path.join(__dirname, "../src/index.ts")
+        )});
+        const a = new AsyncContext.Variable({
+          serializer: {
+            key: workerData.key,
+            serialize: (value) => value,
+            deserialize: (data) => data,
+          },
+        });
+        const snapshot = AsyncContext.Snapshot.deserialize(workerData.payload);
+        parentPort.postMessage(snapshot.run(() => a.get()));
+      `,
+      { eval: true, workerData: { key, payload } }
+    );
+
+    const value = await new Promise((resolve, reject) => {
+      worker.once("message", resolve);
+      worker.once("error", reject);
+    });
+    await worker.terminate();
+    assert.equal(value, 42);
+  });
+});
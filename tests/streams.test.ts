@@ -0,0 +1,189 @@
+import { AsyncContext } from "../src/index";
+import {
+  ContextReadable,
+  ContextReadableStream,
+  ContextTransform,
+  ContextTransformStream,
+  ContextWritableStream,
+} from "../src/streams";
+import { strict as assert } from "assert";
+
+type Value = { id: number };
+
+describe("streams", () => {
+  const first = { id: 1 };
+  const second = { id: 2 };
+
+  // The WHATWG stream classes only exist where the runtime has the globals.
+  const web = ContextReadableStream ? describe : describe.skip;
+
+  web("WHATWG", () => {
+    it("runs the underlying source in the construction context", async () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const seen: Array<Value | undefined> = [];
+
+      // Methods are still called on the original source object.
+      const source = {
+        pulls: 0,
+        start() {
+          seen.push(ctx.get());
+        },
+        pull(controller: ReadableStreamDefaultController<number>) {
+          seen.push(ctx.get());
+          if (++this.pulls === 2) controller.close();
+          else controller.enqueue(this.pulls);
+        },
+      };
+
+      const stream = ctx.run(first, () => new ContextReadableStream!(source));
+
+      const chunks = await ctx.run(second, async () => {
+        const chunks = [];
+        for await (const chunk of stream as any) chunks.push(chunk);
+        return chunks;
+      });
+
+      assert.deepEqual(chunks, [1]);
+      assert.deepEqual(seen, [first, first, first]);
+      assert.equal(source.pulls, 2);
+    });
+
+    it("runs the underlying sink in the construction context", async () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const seen: Array<[string, Value | undefined]> = [];
+
+      const stream = ctx.run(first, () => {
+        return new ContextWritableStream!<string>({
+          write(chunk) {
+            seen.push([chunk, ctx.get()]);
+          },
+          close() {
+            seen.push(["close", ctx.get()]);
+          },
+        });
+      });
+
+      await ctx.run(second, async () => {
+        const writer = stream.getWriter();
+        await writer.write("a");
+        await writer.write("b");
+        await writer.close();
+      });
+
+      assert.deepEqual(seen, [
+        ["a", first],
+        ["b", first],
+        ["close", first],
+      ]);
+    });
+
+    it("runs the transformer in the construction context", async () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const seen: Array<Value | undefined> = [];
+
+      const { readable, writable } = ctx.run(first, () => {
+        return new ContextTransformStream!<number, number>({
+          transform(chunk, controller) {
+            seen.push(ctx.get());
+            controller.enqueue(chunk * 2);
+          },
+          flush() {
+            seen.push(ctx.get());
+          },
+        });
+      });
+
+      const chunks = await ctx.run(second, async () => {
+        const writer = writable.getWriter();
+        writer.write(1);
+        writer.close();
+        const chunks = [];
+        for await (const chunk of readable as any) chunks.push(chunk);
+        return chunks;
+      });
+
+      assert.deepEqual(chunks, [2]);
+      assert.deepEqual(seen, [first, first]);
+    });
+  });
+
+  describe("node", () => {
+    it("runs Readable implementations in the construction context", async () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const seen: Array<Value | undefined> = [];
+
+      class Counter extends ContextReadable {
+        #count = 0;
+        constructor() {
+          super({ objectMode: true });
+        }
+        _read() {
+          seen.push(ctx.get());
+          this.push(this.#count < 2 ? this.#count++ : null);
+        }
+      }
+
+      const counter = ctx.run(first, () => new Counter());
+      const fromOptions = ctx.run(first, () => {
+        return new ContextReadable({
+          objectMode: true,
+          construct(callback) {
+            seen.push(ctx.get());
+            callback();
+          },
+          read() {
+            seen.push(ctx.get());
+            this.push(null);
+          },
+        });
+      });
+
+      const chunks = await ctx.run(second, async () => {
+        const chunks = [];
+        for await (const chunk of counter) chunks.push(chunk);
+        for await (const chunk of fromOptions) chunks.push(chunk);
+        return chunks;
+      });
+
+      assert.deepEqual(chunks, [0, 1]);
+      // Node only calls `construct` from version 15.
+      const major = Number(process.versions.node.split(".")[0]);
+      const constructed = major >= 15 ? [first] : [];
+      assert.deepEqual(seen, [first, first, first, ...constructed, first]);
+    });
+
+    it("runs Transform implementations in the construction context", async () => {
+      const ctx = new AsyncContext.Variable<Value>();
+      const seen: Array<Value | undefined> = [];
+
+      const transform = ctx.run(first, () => {
+        return new ContextTransform({
+          objectMode: true,
+          transform(chunk, _encoding, callback) {
+            seen.push(ctx.get());
+            setImmediate(() => callback(null, chunk * 2));
+          },
+          flush(callback) {
+            seen.push(ctx.get());
+            callback();
+          },
+        });
+      });
+
+      const chunks = await ctx.run(second, () => {
+        const chunks: number[] = [];
+        return new Promise((resolve, reject) => {
+          transform.on("data", (chunk) => chunks.push(chunk));
+          transform.on("end", () => resolve(chunks));
+          transform.on("error", reject);
+          transform.write(1);
+          transform.write(2);
+          transform.end();
+        });
+      });
+
+      assert.deepEqual(chunks, [2, 4]);
+      assert.deepEqual(seen, [first, first, first]);
+    });
+  });
+});